@@ -0,0 +1,188 @@
+#!/usr/bin/env tsx
+
+/**
+ * 从 trade_events 重放交易，重建K线和 Meme 代币的价格、交易量、市值
+ *
+ * 用法:
+ *   npm run replay-trades -- --network <链ID> [--pair <代币地址>] [--from <时间>] [--to <时间>] [--skip-stats]
+ *
+ * - --pair: 只重放该代币（交易对）的交易，不指定时处理该网络所有有成交的代币
+ * - --from/--to: ISO 时间或毫秒时间戳，只重建该时间范围所在周期的K线；
+ *   不指定 --pair 和时间范围时先清空该网络的全部K线再重建
+ * - --skip-stats: 只重建K线，不重新计算代币统计
+ *
+ * 交易按区块和日志顺序经 KlineAggregationService 重新聚合，与监听器实时聚合使用同一套代码。
+ * 配置了 RPC 时同时按当前 ETH/USD 价格更新美元价格和市值，否则只更新 ETH 价格和24小时统计。
+ * 建议在监听器停止时运行，避免当前周期的K线被实时聚合覆盖。
+ */
+
+import { closeDatabase } from '../src/app/api/utils/db-core';
+import { deleteKlinesByCondition } from '../src/app/api/utils/klines-queries';
+import { getTradeEventsInBlockOrder } from '../src/app/api/utils/trade-events-queries';
+import { rebuildKlinesFromTrades } from '../src/services/kline';
+import { refreshTokenStats } from '../src/services/token-stats';
+import { createClient, getPoolAddress, type ListenerClient } from '../src/services/trade-listener';
+
+interface ReplayOptions {
+  network: string;
+  pair?: string;
+  from?: number;
+  to?: number;
+  skipStats: boolean;
+}
+
+// 解析时间参数：纯数字为毫秒时间戳，否则按 ISO 时间解析
+function parseTime(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+
+  const time = /^\d+$/.test(value) ? Number(value) : new Date(value).getTime();
+  if (isNaN(time)) {
+    throw new Error(`无效的 --${name} 参数: ${value}`);
+  }
+  return time;
+}
+
+// 解析命令行参数，支持 --key value 和 --key=value
+function parseArgs(argv: string[]): ReplayOptions {
+  const args: Record<string, string> = {};
+  const flags = new Set<string>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      throw new Error(`无法识别的参数: ${arg}`);
+    }
+
+    const [key, inlineValue] = arg.slice(2).split('=', 2);
+    if (key === 'skip-stats') {
+      flags.add(key);
+    } else if (inlineValue !== undefined) {
+      args[key] = inlineValue;
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      args[key] = argv[++i];
+    } else {
+      throw new Error(`参数 --${key} 缺少值`);
+    }
+  }
+
+  if (!args.network || !/^\d+$/.test(args.network)) {
+    throw new Error('缺少或无效的 --network 参数，应为链 ID');
+  }
+  if (args.pair && !/^0x[a-fA-F0-9]{40}$/.test(args.pair)) {
+    throw new Error(`无效的 --pair 参数: ${args.pair}`);
+  }
+
+  const from = parseTime('from', args.from);
+  const to = parseTime('to', args.to);
+  if (from !== undefined && to !== undefined && from > to) {
+    throw new Error('--from 不能晚于 --to');
+  }
+
+  return { network: args.network, pair: args.pair, from, to, skipStats: flags.has('skip-stats') };
+}
+
+// 获取需要重放的代币：指定 --pair 时只处理该代币，否则为时间范围内有成交的代币
+async function getReplayTokens(options: ReplayOptions): Promise<string[]> {
+  if (options.pair) {
+    return [options.pair];
+  }
+
+  const trades = await getTradeEventsInBlockOrder({
+    network: options.network,
+    startTime: options.from !== undefined ? new Date(options.from).toISOString() : undefined,
+    endTime: options.to !== undefined ? new Date(options.to).toISOString() : undefined
+  });
+  return Array.from(new Set(trades.map(trade => trade.token_address).filter((address): address is string => !!address)));
+}
+
+// 重放单个代币的交易，返回库中记录的代币地址和参与重建的成交笔数
+async function replayToken(options: ReplayOptions, tokenAddress: string): Promise<{ pairAddress: string; replayed: number }> {
+  // 加载该代币的全部成交，由 rebuildKlines 按各周期的时间范围筛选，保证边界周期完整
+  const trades = await getTradeEventsInBlockOrder({ network: options.network, tokenAddress });
+  if (trades.length === 0) {
+    return { pairAddress: tokenAddress, replayed: 0 };
+  }
+
+  // K线以入库时的代币地址作为交易对地址
+  const pairAddress = trades[0].token_address || tokenAddress;
+
+  const tradeData = trades.map(trade => ({
+    amount: trade.token_amount,
+    quoteAmount: trade.eth_amount,
+    isBuy: trade.isBuy,
+    price: trade.price,
+    address: pairAddress,
+    network: options.network,
+    timestamp: new Date(trade.timestamp).getTime(),
+    txHash: trade.tx_hash,
+    logIndex: trade.log_index
+  }));
+  const fromTimestamp = options.from ?? tradeData.reduce((earliest, trade) => Math.min(earliest, trade.timestamp), Infinity);
+
+  await rebuildKlinesFromTrades(options.network, pairAddress, fromTimestamp, tradeData, options.to);
+
+  const replayed = tradeData.filter(trade =>
+    trade.timestamp >= fromTimestamp && (options.to === undefined || trade.timestamp <= options.to)
+  ).length;
+  return { pairAddress, replayed };
+}
+
+async function replayTrades(options: ReplayOptions): Promise<void> {
+  const chainId = Number(options.network);
+
+  // 全量重放时先清空该网络的K线，包括已没有对应成交的K线
+  if (!options.pair && options.from === undefined && options.to === undefined) {
+    const deleted = await deleteKlinesByCondition({ network: options.network });
+    console.log(`🧹 已清空网络 ${options.network} 的 ${deleted} 条K线`);
+  }
+
+  const tokens = await getReplayTokens(options);
+  console.log(`🔁 开始重放网络 ${options.network} 上 ${tokens.length} 个代币的交易`);
+
+  let client: ListenerClient | null = null;
+  if (!options.skipStats) {
+    try {
+      client = await createClient(chainId);
+    } catch (error) {
+      console.warn('⚠️  无法连接 RPC，只更新 ETH 价格和24小时统计:', error instanceof Error ? error.message : error);
+    }
+  }
+  const poolAddress = getPoolAddress(chainId) || '';
+
+  let failed = 0;
+  for (const tokenAddress of tokens) {
+    try {
+      const { pairAddress, replayed } = await replayToken(options, tokenAddress);
+      if (!options.skipStats) {
+        await refreshTokenStats(options.network, client, poolAddress, pairAddress);
+      }
+      console.log(`✅ ${pairAddress}: 重放 ${replayed} 笔成交`);
+    } catch (error) {
+      failed++;
+      console.error(`❌ ${tokenAddress} 重放失败:`, error);
+    }
+  }
+
+  console.log(`🎉 重放完成：成功 ${tokens.length - failed} 个，失败 ${failed} 个`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+// 如果直接运行此脚本
+if (require.main === module) {
+  (async () => {
+    try {
+      await replayTrades(parseArgs(process.argv.slice(2)));
+    } catch (error) {
+      console.error('❌ 重放交易失败:', error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    } finally {
+      await closeDatabase();
+      // K线服务和RPC提供者池的定时器会阻止进程退出
+      process.exit();
+    }
+  })();
+}
+
+export { replayTrades, parseArgs };
@@ -0,0 +1,159 @@
+#!/usr/bin/env tsx
+
+/**
+ * 死信队列测试脚本
+ * 覆盖：处理失败写入死信 -> 指数退避重试 -> 用尽重试次数 -> 管理接口重新投递 -> 重试成功
+ *
+ * 在临时目录中运行，数据库写在临时目录的 data/ 下，不影响开发数据库
+ */
+
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// 缩短重试间隔和退避时间，必须在加载死信模块之前设置
+process.env.DEAD_LETTER_RETRY_INTERVAL_MS = "200";
+process.env.DEAD_LETTER_RETRY_BASE_DELAY_SECONDS = "1";
+process.env.DEAD_LETTER_MAX_ATTEMPTS = "3";
+
+const CHAIN_ID = 31337;
+const POOL_ADDRESS = "0x1111111111111111111111111111111111111111";
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "keke-dead-letters-"));
+process.chdir(tempDir);
+
+// 轮询等待条件成立，超时抛出错误
+async function waitFor(description: string, check: () => Promise<boolean>, timeoutMs = 10000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${description}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}
+
+async function testDeadLetters() {
+  // 数据库路径按当前目录计算，切换目录后再加载
+  const { initializeDatabase, getDatabase, closeDatabase } = await import("../src/app/api/utils/db-core");
+  const { recordFailedTradeEvent, startDeadLetterRetry, stopDeadLetterRetry } = await import("../src/services/trade-dead-letter");
+  const { NextRequest } = await import("next/server");
+  const { GET, POST } = await import("../src/app/api/dead-letters/route");
+
+  try {
+    await initializeDatabase();
+    const db = await getDatabase();
+
+    // 读取死信记录及下一次重试距离最近一次更新的秒数
+    const getDeadLetter = async () => {
+      return await db.get(
+        `SELECT *, CAST(strftime('%s', next_retry_at) AS INTEGER) - CAST(strftime('%s', updated_at) AS INTEGER) AS retry_delay
+         FROM trade_dead_letters WHERE network = ?`,
+        [CHAIN_ID.toString()]
+      );
+    };
+
+    console.log("🔧 Testing dead-letter recording...");
+    const tradeEvent = {
+      network: CHAIN_ID.toString(),
+      tx_hash: "0x" + "ab".repeat(32),
+      user_address: "0x2222222222222222222222222222222222222222",
+      token_amount: "1000",
+      eth_amount: "0.5",
+      token_address: "0x3333333333333333333333333333333333333333",
+      isBuy: true,
+      price: "0.0005",
+      block_number: 100,
+      block_hash: "0x" + "cd".repeat(32),
+      log_index: 2,
+      timestamp: new Date().toISOString()
+    };
+    await recordFailedTradeEvent(POOL_ADDRESS, tradeEvent, new Error("kline failed"));
+
+    let deadLetter = await getDeadLetter();
+    assert.equal(deadLetter.status, "pending");
+    assert.equal(deadLetter.attempts, 1);
+    assert.equal(deadLetter.error, "kline failed");
+    assert.equal(deadLetter.retry_delay, 1);
+    assert.deepEqual(JSON.parse(deadLetter.payload), tradeEvent);
+    console.log("✅ Failed trade event dead-lettered with 1s first retry delay");
+
+    // 重试处理函数：failing 为 true 时模拟处理失败
+    let failing = true;
+    const retried: { poolAddress: string; txHash: string }[] = [];
+    startDeadLetterRetry(CHAIN_ID, async (poolAddress, event) => {
+      retried.push({ poolAddress, txHash: event.tx_hash });
+      if (failing) {
+        throw new Error(`retry ${retried.length} failed`);
+      }
+    });
+
+    console.log("🔧 Testing exponential backoff...");
+    await waitFor("second attempt", async () => (await getDeadLetter()).attempts === 2);
+    deadLetter = await getDeadLetter();
+    assert.equal(deadLetter.status, "pending");
+    assert.equal(deadLetter.error, "retry 1 failed");
+    assert.equal(deadLetter.retry_delay, 2);
+    assert.deepEqual(retried[0], { poolAddress: POOL_ADDRESS, txHash: tradeEvent.tx_hash });
+    console.log("✅ Failed retry doubled the delay to 2s");
+
+    console.log("🔧 Testing retry exhaustion...");
+    await waitFor("exhausted status", async () => (await getDeadLetter()).status === "exhausted");
+    deadLetter = await getDeadLetter();
+    assert.equal(deadLetter.attempts, 3);
+    assert.equal(deadLetter.error, "retry 2 failed");
+
+    // 用尽后不再自动重试
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    assert.equal(retried.length, 2);
+    console.log("✅ Dead letter exhausted after 3 attempts and no longer retried");
+
+    console.log("🔧 Testing redrive via /api/dead-letters...");
+    const invalidResponse = await POST(new NextRequest("http://localhost/api/dead-letters", {
+      method: "POST",
+      body: JSON.stringify({ ids: [] })
+    }));
+    assert.equal(invalidResponse.status, 400);
+
+    failing = false;
+    const redriveResponse = await POST(new NextRequest("http://localhost/api/dead-letters", {
+      method: "POST",
+      body: JSON.stringify({ ids: [deadLetter.id] })
+    }));
+    assert.equal(redriveResponse.status, 200);
+    assert.deepEqual(await redriveResponse.json(), { success: true, data: { redriven: 1 } });
+
+    await waitFor("resolved status", async () => (await getDeadLetter()).status === "resolved");
+    deadLetter = await getDeadLetter();
+    assert.equal(retried.length, 3);
+    assert.notEqual(deadLetter.resolved_at, null);
+    console.log("✅ Redriven dead letter reprocessed and resolved");
+
+    // 已成功的死信不会被重新投递
+    const resolvedRedrive = await POST(new NextRequest("http://localhost/api/dead-letters", {
+      method: "POST",
+      body: JSON.stringify({ network: CHAIN_ID.toString() })
+    }));
+    assert.deepEqual(await resolvedRedrive.json(), { success: true, data: { redriven: 0 } });
+
+    const listResponse = await GET(new NextRequest(`http://localhost/api/dead-letters?network=${CHAIN_ID}&status=resolved`));
+    const list = await listResponse.json();
+    assert.equal(list.success, true);
+    assert.equal(list.pagination.total, 1);
+    assert.deepEqual(list.data[0].payload, tradeEvent);
+    console.log("✅ Resolved dead letter listed with parsed payload");
+
+    console.log("\n✅ Dead-letter test completed successfully!");
+  } catch (error) {
+    console.error("❌ Dead-letter test failed:", error);
+    process.exitCode = 1;
+  } finally {
+    stopDeadLetterRetry();
+    await closeDatabase();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+// 运行测试
+testDeadLetters();
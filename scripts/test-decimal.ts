@@ -0,0 +1,97 @@
+#!/usr/bin/env tsx
+
+/**
+ * 定点小数运算测试脚本
+ * 覆盖：解析（含科学计数法）、18 位小数截断、格式化和四则运算
+ */
+
+import assert from "node:assert/strict";
+import {
+  DECIMAL_PLACES,
+  parseDecimal,
+  formatDecimal,
+  isValidDecimal,
+  normalizeDecimal,
+  compareDecimals,
+  maxDecimal,
+  minDecimal,
+  addDecimals,
+  sumDecimals,
+  subtractDecimals,
+  multiplyDecimals,
+  divideDecimals
+} from "../src/lib/decimal";
+
+function testDecimal() {
+  try {
+    console.log("🔧 Testing decimal parsing...");
+    assert.equal(DECIMAL_PLACES, 18);
+    assert.equal(parseDecimal("1.5"), BigInt("1500000000000000000"));
+    assert.equal(parseDecimal("-0.000000000000000001"), BigInt(-1));
+    assert.equal(parseDecimal(" +2 "), BigInt("2000000000000000000"));
+    assert.equal(normalizeDecimal(".5"), "0.5");
+    assert.equal(normalizeDecimal("5."), "5");
+    assert.equal(normalizeDecimal("007.2500"), "7.25");
+    for (const invalid of ["", ".", "abc", "1.2.3", "e5", "1e", "0x10"]) {
+      assert.equal(isValidDecimal(invalid), false, `"${invalid}" should be invalid`);
+      assert.throws(() => parseDecimal(invalid), /Invalid decimal/);
+    }
+    console.log("✅ Plain decimals parsed");
+
+    console.log("🔧 Testing scientific notation...");
+    assert.equal(normalizeDecimal("1.2e-8"), "0.000000012");
+    assert.equal(normalizeDecimal(1.2e-8), "0.000000012");
+    assert.equal(normalizeDecimal("1.5E+3"), "1500");
+    assert.equal(normalizeDecimal("-2.5e2"), "-250");
+    assert.equal(normalizeDecimal(1e21), "1000000000000000000000");
+    assert.equal(normalizeDecimal("1e-18"), "0.000000000000000001");
+    console.log("✅ Scientific notation parsed");
+
+    console.log("🔧 Testing 18-place truncation...");
+    assert.equal(normalizeDecimal("0.1234567890123456789"), "0.123456789012345678");
+    assert.equal(normalizeDecimal("-0.0000000000000000019"), "-0.000000000000000001");
+    assert.equal(normalizeDecimal("1e-19"), "0");
+    assert.equal(normalizeDecimal("-1e-19"), "0");
+    assert.equal(normalizeDecimal("123456789012345678901234567890.999999999999999999999"), "123456789012345678901234567890.999999999999999999");
+    console.log("✅ Digits beyond 18 places truncated toward zero");
+
+    console.log("🔧 Testing formatting...");
+    assert.equal(formatDecimal(BigInt(0)), "0");
+    assert.equal(formatDecimal(BigInt("-1500000000000000000")), "-1.5");
+    assert.equal(formatDecimal(BigInt("1000000000000000001")), "1.000000000000000001");
+    console.log("✅ Fixed-point values formatted without trailing zeros");
+
+    console.log("🔧 Testing comparison...");
+    assert.equal(compareDecimals("1.0", "1"), 0);
+    assert.equal(compareDecimals("-1", "0.5"), -1);
+    assert.equal(compareDecimals("1e-18", "0"), 1);
+    assert.equal(maxDecimal("1.0", "1"), "1.0");
+    assert.equal(maxDecimal("2", "10"), "10");
+    assert.equal(minDecimal("2", "10"), "2");
+    assert.equal(minDecimal(0.1, 0.2), 0.1);
+    console.log("✅ Comparison works on numeric value, not string order");
+
+    console.log("🔧 Testing arithmetic...");
+    assert.equal(addDecimals("0.1", "0.2"), "0.3");
+    assert.equal(addDecimals(0.1, 0.2), "0.3");
+    assert.equal(sumDecimals([]), "0");
+    assert.equal(sumDecimals(["1", "2.5", "-0.5", 1e-18]), "3.000000000000000001");
+    assert.equal(subtractDecimals("1", "1.000000000000000001"), "-0.000000000000000001");
+    assert.equal(multiplyDecimals("1.5", "-2"), "-3");
+    assert.equal(multiplyDecimals("0.000000001", "0.000000001"), "0.000000000000000001");
+    assert.equal(multiplyDecimals("0.0000000001", "0.0000000001"), "0");
+    assert.equal(divideDecimals("1", "3"), "0.333333333333333333");
+    assert.equal(divideDecimals("2", "3"), "0.666666666666666666");
+    assert.equal(divideDecimals("-1", "8"), "-0.125");
+    assert.throws(() => divideDecimals("1", "0.0"), /Division by zero/);
+    console.log("✅ Arithmetic results exact to 18 places");
+
+    console.log("\n✅ Decimal test completed successfully!");
+  } catch (error) {
+    console.error("❌ Decimal test failed:", error);
+    process.exit(1);
+  }
+}
+
+// 运行测试
+testDecimal();
@@ -0,0 +1,254 @@
+#!/usr/bin/env tsx
+
+/**
+ * K线补齐和时区汇总测试脚本
+ * 覆盖：fillKlineGaps 用上一根收盘价补平盘K线，getKlinesWithOffset 按 UTC+8 的周边界重新汇总
+ *
+ * 在临时目录中运行，数据库写在临时目录的 data/ 下，不影响开发数据库
+ */
+
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const NETWORK = "31337";
+const PAIR_ADDRESS = "0x4444444444444444444444444444444444444444";
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// UTC+8 的周一 0 点：2024-01-01 00:00 (UTC+8) = 2023-12-31 16:00 (UTC)
+const UTC8_OFFSET_MINUTES = 480;
+const LOCAL_WEEK_START = Date.UTC(2023, 11, 31, 16);
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "keke-kline-fill-"));
+process.chdir(tempDir);
+
+async function testKlineFill() {
+  // 数据库路径按当前目录计算，切换目录后再加载
+  const { initializeDatabase, closeDatabase } = await import("../src/app/api/utils/db-core");
+  const {
+    insertKlines,
+    getKlinesInRange,
+    getKlinePeriodStart,
+    getKlineOffsetSourceInterval,
+    getKlinesWithOffset,
+    fillKlineGaps
+  } = await import("../src/app/api/utils/klines-queries");
+  const { insertTradeEvents } = await import("../src/app/api/utils/trade-events-queries");
+
+  // 生成一根K线的写入数据
+  const kline = (intervalType: string, timestamp: number, prices: [string, string, string, string], volume: string, isComplete = true) => ({
+    network: NETWORK,
+    pair_address: PAIR_ADDRESS,
+    interval_type: intervalType,
+    timestamp: timestamp.toString(),
+    open: prices[0],
+    high: prices[1],
+    low: prices[2],
+    close: prices[3],
+    volume,
+    quote_volume: volume,
+    buy_volume: volume,
+    sell_volume: "0",
+    trade_count: 1,
+    unique_traders: 1,
+    is_complete: isComplete
+  });
+
+  // 生成一笔成交记录
+  const trade = (userAddress: string, timestamp: number, logIndex: number) => ({
+    network: NETWORK,
+    tx_hash: "0x" + logIndex.toString(16).padStart(64, "0"),
+    user_address: userAddress,
+    token_amount: "1",
+    eth_amount: "1",
+    token_address: PAIR_ADDRESS,
+    isBuy: true,
+    price: "1",
+    block_number: logIndex,
+    log_index: logIndex,
+    timestamp: new Date(timestamp).toISOString()
+  });
+
+  try {
+    await initializeDatabase();
+
+    console.log("🔧 Testing period alignment...");
+    // 2023-12-31 是周日：UTC 下属于 12-25 开始的一周，UTC+8 下已是 2024-01-01 周一
+    assert.equal(getKlinePeriodStart(LOCAL_WEEK_START, "1w"), Date.UTC(2023, 11, 25));
+    assert.equal(getKlinePeriodStart(LOCAL_WEEK_START, "1w", UTC8_OFFSET_MINUTES), LOCAL_WEEK_START);
+    assert.equal(getKlinePeriodStart(LOCAL_WEEK_START - 1, "1w", UTC8_OFFSET_MINUTES), LOCAL_WEEK_START - 7 * DAY_MS);
+    assert.equal(getKlinePeriodStart(Date.UTC(2024, 0, 1, 15, 59), "1d", UTC8_OFFSET_MINUTES), LOCAL_WEEK_START);
+    assert.equal(getKlineOffsetSourceInterval("1w", UTC8_OFFSET_MINUTES), "4h");
+    assert.equal(getKlineOffsetSourceInterval("1d", 330), "15m");
+    assert.throws(() => getKlineOffsetSourceInterval("1d", 7), /Cannot align 1d klines/);
+    console.log("✅ UTC+8 weeks start on local Monday and use 4h source klines");
+
+    console.log("🔧 Testing weekly re-aggregation across the local week boundary...");
+    // 4h K线：A 在上一本地周的最后 4 小时，B、C 在新的本地周，D 在两周之后
+    const a = LOCAL_WEEK_START - 4 * HOUR_MS;
+    const b = LOCAL_WEEK_START;
+    const c = Date.UTC(2024, 0, 2);
+    const d = LOCAL_WEEK_START + 14 * DAY_MS;
+    await insertKlines([
+      kline("4h", a, ["1", "2", "0.5", "1.5"], "10"),
+      kline("4h", b, ["1.5", "3", "1.4", "2.5"], "20"),
+      kline("4h", c, ["2.5", "2.6", "2", "2.2"], "5.000000000000000001"),
+      kline("4h", d, ["2.2", "2.4", "2.1", "2.3"], "1", false)
+    ]);
+    await insertTradeEvents([
+      trade("0xAAAA000000000000000000000000000000000001", a + HOUR_MS, 1),
+      trade("0xaaaa000000000000000000000000000000000001", b + HOUR_MS, 2),
+      trade("0xBBBB000000000000000000000000000000000002", c + HOUR_MS, 3),
+      trade("0xbbbb000000000000000000000000000000000002", c + 2 * HOUR_MS, 4),
+      trade("0xCCCC000000000000000000000000000000000003", d + HOUR_MS, 5)
+    ]);
+
+    const weekly = await getKlinesWithOffset({
+      network: NETWORK,
+      pairAddress: PAIR_ADDRESS,
+      intervalType: "1w",
+      offsetMinutes: UTC8_OFFSET_MINUTES,
+      limit: 10
+    });
+    assert.deepEqual(weekly.map((k) => k.timestamp), [d, b, b - 7 * DAY_MS]);
+    const [thirdWeek, secondWeek, firstWeek] = weekly;
+    assert.deepEqual(
+      { open: firstWeek.open, high: firstWeek.high, low: firstWeek.low, close: firstWeek.close, volume: firstWeek.volume },
+      { open: "1", high: "2", low: "0.5", close: "1.5", volume: "10" }
+    );
+    assert.deepEqual(
+      { open: secondWeek.open, high: secondWeek.high, low: secondWeek.low, close: secondWeek.close, volume: secondWeek.volume },
+      { open: "1.5", high: "3", low: "1.4", close: "2.2", volume: "25.000000000000000001" }
+    );
+    assert.equal(secondWeek.trade_count, 2);
+    assert.equal(secondWeek.unique_traders, 2);
+    assert.equal(firstWeek.unique_traders, 1);
+    assert.equal(secondWeek.is_complete, 1);
+    assert.equal(thirdWeek.is_complete, 0);
+    console.log("✅ Weekly klines regrouped at UTC+8 Monday with merged prices, volume and traders");
+
+    const paged = await getKlinesWithOffset({
+      network: NETWORK,
+      pairAddress: PAIR_ADDRESS,
+      intervalType: "1w",
+      offsetMinutes: UTC8_OFFSET_MINUTES,
+      limit: 10,
+      beforeTimestamp: LOCAL_WEEK_START
+    });
+    assert.deepEqual(paged.map((k) => k.timestamp), [b - 7 * DAY_MS]);
+
+    const fromMidWeek = await getKlinesWithOffset({
+      network: NETWORK,
+      pairAddress: PAIR_ADDRESS,
+      intervalType: "1w",
+      offsetMinutes: UTC8_OFFSET_MINUTES,
+      limit: 10,
+      fromTimestamp: LOCAL_WEEK_START - DAY_MS,
+      toTimestamp: LOCAL_WEEK_START + 7 * DAY_MS
+    });
+    assert.deepEqual(fromMidWeek.map((k) => k.timestamp), [b]);
+    console.log("✅ before/from/to bounds applied to local week starts");
+
+    console.log("🔧 Testing gap filling of re-aggregated weeks...");
+    const fillWeeks = async (fromTimestamp: number, toTimestamp: number) => {
+      const options = {
+        network: NETWORK,
+        pairAddress: PAIR_ADDRESS,
+        intervalType: "1w" as const,
+        offsetMinutes: UTC8_OFFSET_MINUTES,
+        limit: 10,
+        fromTimestamp,
+        toTimestamp
+      };
+      return await fillKlineGaps(await getKlinesWithOffset(options), options);
+    };
+
+    const filledWeeks = await fillWeeks(b - 7 * DAY_MS, d);
+    assert.deepEqual(filledWeeks.map((k) => k.timestamp), [d, b + 7 * DAY_MS, b, b - 7 * DAY_MS]);
+    const emptyWeek = filledWeeks[1];
+    assert.deepEqual(
+      [emptyWeek.open, emptyWeek.high, emptyWeek.low, emptyWeek.close, emptyWeek.volume, emptyWeek.trade_count],
+      ["2.2", "2.2", "2.2", "2.2", "0", 0]
+    );
+    assert.equal(emptyWeek.is_complete, 1);
+
+    // 范围从空周开始时，起始价格取范围之前最后一根 4h K线的收盘价
+    const seededWeeks = await fillWeeks(b + 7 * DAY_MS, d);
+    assert.deepEqual(seededWeeks.map((k) => [k.timestamp, k.close, k.volume]), [[d, "2.3", "1"], [b + 7 * DAY_MS, "2.2", "0"]]);
+    console.log("✅ Empty local week filled flat at the previous week's close");
+
+    console.log("🔧 Testing gap filling of UTC klines...");
+    // 1h K线：T0 收盘 1，T0+3h 收盘 2，中间两个小时没有成交
+    const t0 = Date.UTC(2024, 0, 1);
+    await insertKlines([
+      kline("1h", t0, ["0.9", "1.1", "0.8", "1"], "3"),
+      kline("1h", t0 + 3 * HOUR_MS, ["1.8", "2", "1.8", "2"], "4")
+    ]);
+    const fillHours = async (options: { fromTimestamp?: number; toTimestamp?: number; beforeTimestamp?: number; limit?: number }) => {
+      const queryOptions = {
+        network: NETWORK,
+        pairAddress: PAIR_ADDRESS,
+        intervalType: "1h" as const,
+        offsetMinutes: 0,
+        limit: options.limit ?? 10,
+        ...options
+      };
+      const klines = (await getKlinesInRange({
+        network: NETWORK,
+        pairAddress: PAIR_ADDRESS,
+        intervalType: "1h",
+        fromTimestamp: options.fromTimestamp ?? 0
+      })).reverse();
+      return await fillKlineGaps(klines, queryOptions);
+    };
+
+    const filledHours = await fillHours({ fromTimestamp: t0, toTimestamp: t0 + 4 * HOUR_MS });
+    assert.deepEqual(
+      filledHours.map((k) => [k.timestamp - t0, k.open, k.close, k.volume, k.trade_count]),
+      [
+        [4 * HOUR_MS, "2", "2", "0", 0],
+        [3 * HOUR_MS, "1.8", "2", "4", 1],
+        [2 * HOUR_MS, "1", "1", "0", 0],
+        [HOUR_MS, "1", "1", "0", 0],
+        [0, "0.9", "1", "3", 1]
+      ]
+    );
+    assert.ok(filledHours.every((k) => k.is_complete === 1));
+
+    // 范围开始前的K线提供起始价格
+    const seededHours = await fillHours({ fromTimestamp: t0 + HOUR_MS, toTimestamp: t0 + 2 * HOUR_MS });
+    assert.deepEqual(seededHours.map((k) => [k.timestamp - t0, k.close]), [[2 * HOUR_MS, "1"], [HOUR_MS, "1"]]);
+
+    // 第一根K线之前的周期无法确定价格，不补齐
+    const beforeFirst = await fillHours({ fromTimestamp: t0 - 2 * HOUR_MS, toTimestamp: t0 });
+    assert.deepEqual(beforeFirst.map((k) => k.timestamp), [t0]);
+
+    // limit 取最近的周期，beforeTimestamp 不含该周期
+    const limited = await fillHours({ toTimestamp: t0 + 4 * HOUR_MS, limit: 2 });
+    assert.deepEqual(limited.map((k) => k.timestamp - t0), [4 * HOUR_MS, 3 * HOUR_MS]);
+    const before = await fillHours({ fromTimestamp: t0, beforeTimestamp: t0 + 3 * HOUR_MS });
+    assert.deepEqual(before.map((k) => k.timestamp - t0), [2 * HOUR_MS, HOUR_MS, 0]);
+    console.log("✅ Empty hours filled flat; range, limit and before bounds respected");
+
+    console.log("🔧 Testing the current period...");
+    const current = await fillHours({ limit: 1 });
+    assert.equal(current.length, 1);
+    assert.equal(current[0].timestamp, getKlinePeriodStart(Date.now(), "1h"));
+    assert.equal(current[0].close, "2");
+    assert.equal(current[0].is_complete, 0);
+    console.log("✅ Range ends at the current period, filled as incomplete");
+
+    console.log("\n✅ Kline fill test completed successfully!");
+  } catch (error) {
+    console.error("❌ Kline fill test failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await closeDatabase();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+// 运行测试
+testKlineFill();
@@ -0,0 +1,184 @@
+#!/usr/bin/env tsx
+
+/**
+ * K线重启恢复测试脚本
+ * 覆盖：未完成的K线以 is_complete=0 的检查点写入数据库 -> 进程重启后恢复到缓存并继续累加
+ * -> 已计入的成交不会重复计入 -> 重启期间已结束的周期在恢复时直接完成
+ *
+ * 第一次运行在子进程中处理成交后直接退出，模拟服务重启；数据库写在临时目录的 data/ 下，不影响开发数据库
+ */
+
+import assert from "node:assert/strict";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const NETWORK = "31337";
+const PAIR_ADDRESS = "0x6666666666666666666666666666666666666666";
+const MINUTE_MS = 60 * 1000;
+const HALF_MINUTE_MS = 30 * 1000;
+
+// 生成一笔成交：入库的交易事件和计入K线的成交数据
+function createTrade(index: number, timestamp: number, amount: string, price: string) {
+  const tradeEvent = {
+    network: NETWORK,
+    tx_hash: "0x" + index.toString(16).padStart(64, "0"),
+    user_address: "0x" + index.toString(16).padStart(40, "7"),
+    token_amount: amount,
+    eth_amount: "0.1",
+    token_address: PAIR_ADDRESS,
+    isBuy: true,
+    price,
+    block_number: index,
+    log_index: 0,
+    timestamp: new Date(timestamp).toISOString()
+  };
+  const tradeData = {
+    amount,
+    quoteAmount: tradeEvent.eth_amount,
+    isBuy: true,
+    price,
+    address: PAIR_ADDRESS,
+    network: NETWORK,
+    timestamp,
+    txHash: tradeEvent.tx_hash,
+    logIndex: tradeEvent.log_index
+  };
+  return { tradeEvent, tradeData };
+}
+
+// 重启前的进程：处理一笔成交后直接退出，不完成K线
+async function runBeforeRestart(tradeTime: number) {
+  const { initializeDatabase } = await import("../src/app/api/utils/db-core");
+  const { insertTradeEvent } = await import("../src/app/api/utils/trade-events-queries");
+  const { processTradeForKlines } = await import("../src/services/kline");
+
+  await initializeDatabase();
+  const { tradeEvent, tradeData } = createTrade(1, tradeTime, "100", "0.001");
+  await insertTradeEvent(tradeEvent);
+  await processTradeForKlines(tradeData);
+  process.exit(0);
+}
+
+async function testKlineRestart() {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "keke-kline-restart-"));
+
+  // 避开 30 秒周期的末尾，保证重启前后的成交落在同一个未结束的周期
+  const periodOffset = Date.now() % HALF_MINUTE_MS;
+  if (periodOffset > 10000) {
+    console.log("⏳ Waiting for the next 30s period...");
+    await new Promise((resolve) => setTimeout(resolve, HALF_MINUTE_MS - periodOffset + 100));
+  }
+  const tradeTime = Date.now();
+
+  console.log("🔧 Running the service before restart...");
+  const firstRun = spawnSync(process.execPath, [...process.execArgv, process.argv[1], "before-restart", tempDir, tradeTime.toString()], {
+    stdio: "inherit"
+  });
+  if (firstRun.status !== 0) {
+    throw new Error(`Run before restart exited with status ${firstRun.status}`);
+  }
+
+  // 数据库路径按当前目录计算，切换目录后再加载
+  process.chdir(tempDir);
+  const { initializeDatabase, closeDatabase } = await import("../src/app/api/utils/db-core");
+  const { insertTradeEvent } = await import("../src/app/api/utils/trade-events-queries");
+  const { getKlineByTimestamp, getKlinePeriodStart, upsertKline } = await import("../src/app/api/utils/klines-queries");
+
+  try {
+    await initializeDatabase();
+
+    const getKline = (interval: "30s" | "1m" | "15m", timestamp: number) =>
+      getKlineByTimestamp({ network: NETWORK, pairAddress: PAIR_ADDRESS, intervalType: interval, timestamp });
+
+    for (const interval of ["30s", "1m"] as const) {
+      const checkpoint = await getKline(interval, getKlinePeriodStart(tradeTime, interval));
+      assert.equal(checkpoint?.is_complete, 0, `${interval} kline should be checkpointed as open`);
+      assert.equal(checkpoint?.trade_count, 1);
+      assert.equal(checkpoint?.volume, "100");
+    }
+    console.log("✅ Open klines checkpointed with is_complete=0");
+
+    // 重启期间已经结束的周期：基础K线和汇总K线的检查点
+    const endedPeriod = getKlinePeriodStart(tradeTime, "1m") - 10 * MINUTE_MS;
+    const endedRollupPeriod = getKlinePeriodStart(tradeTime, "15m") - 30 * MINUTE_MS;
+    const checkpoint = (interval: string, timestamp: number) => ({
+      network: NETWORK,
+      pair_address: PAIR_ADDRESS,
+      interval_type: interval,
+      timestamp: timestamp.toString(),
+      open: "0.0005",
+      high: "0.0006",
+      low: "0.0004",
+      close: "0.0005",
+      volume: "10",
+      trade_count: 1,
+      is_complete: false
+    });
+    await upsertKline(checkpoint("1m", endedPeriod));
+    await upsertKline(checkpoint("15m", endedRollupPeriod));
+
+    console.log("🔧 Restoring after restart...");
+    const { klineService, processTradeForKlines, getCachedKlineData } = await import("../src/services/kline");
+    try {
+      const secondTrade = createTrade(2, tradeTime + 1000, "50", "0.002");
+      await insertTradeEvent(secondTrade.tradeEvent);
+      await processTradeForKlines(secondTrade.tradeData);
+
+      // 重启前已计入的成交再次收到时跳过
+      await processTradeForKlines(createTrade(1, tradeTime, "100", "0.001").tradeData);
+
+      for (const interval of ["30s", "1m"] as const) {
+        const periodStart = getKlinePeriodStart(tradeTime, interval);
+        const cached = getCachedKlineData(NETWORK, PAIR_ADDRESS)
+          .find((kline) => kline.interval_type === interval && kline.timestamp === periodStart);
+        assert.deepEqual(
+          cached && [cached.open_price, cached.high_price, cached.low_price, cached.close_price, cached.volume, cached.trade_count, cached.is_complete],
+          ["0.001", "0.002", "0.001", "0.002", "150", 2, false],
+          `${interval} kline should continue from its checkpoint`
+        );
+
+        const persisted = await getKline(interval, periodStart);
+        assert.equal(persisted?.is_complete, 0);
+        assert.equal(persisted?.volume, "150");
+        assert.equal(persisted?.trade_count, 2);
+        assert.equal(persisted?.unique_traders, 2);
+      }
+      console.log("✅ Open klines restored and kept accumulating without double counting");
+
+      const ended = await getKline("1m", endedPeriod);
+      assert.equal(ended?.is_complete, 1);
+      assert.equal(ended?.volume, "10");
+      const endedRollup = await getKline("15m", endedRollupPeriod);
+      assert.equal(endedRollup?.is_complete, 1);
+      console.log("✅ Checkpoints of periods that ended during the restart completed");
+    } finally {
+      klineService.stop();
+    }
+
+    console.log("\n✅ Kline restart test completed successfully!");
+  } catch (error) {
+    console.error("❌ Kline restart test failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await closeDatabase();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    // 未结束周期的K线完成定时器仍在等待，直接退出
+    process.exit();
+  }
+}
+
+// 运行测试；带 before-restart 参数时作为重启前的子进程运行
+if (process.argv[2] === "before-restart") {
+  process.chdir(process.argv[3]);
+  runBeforeRestart(Number(process.argv[4])).catch((error) => {
+    console.error("❌ Run before restart failed:", error);
+    process.exit(1);
+  });
+} else {
+  testKlineRestart().catch((error) => {
+    console.error("❌ Kline restart test failed:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,181 @@
+#!/usr/bin/env tsx
+
+/**
+ * 链重组测试脚本
+ * 覆盖：findReorgBlock 找到最近仍在主链上的交易区块 -> rollbackTradeEvents 删除孤块交易和死信、重建K线、回退游标
+ * -> 孤块交易的K线计入记录被清除，重新打包到主链后可以再次计入K线
+ *
+ * 在临时目录中运行，数据库写在临时目录的 data/ 下，不影响开发数据库
+ */
+
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { ListenerClient } from "../src/services/trade-listener";
+
+const CHAIN_ID = 31337;
+const NETWORK = CHAIN_ID.toString();
+const POOL_ADDRESS = "0x1111111111111111111111111111111111111111";
+const TOKEN_ADDRESS = "0x5555555555555555555555555555555555555555";
+const MINUTE_MS = 60 * 1000;
+
+// 测试链上的区块哈希：旧链 11、12 号区块被重组替换
+const blockHash = (blockNumber: number, fork = "") => "0x" + `${fork}${blockNumber}`.padStart(64, fork ? "f" : "0");
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "keke-reorg-"));
+process.chdir(tempDir);
+
+async function testReorg() {
+  // 数据库路径按当前目录计算，切换目录后再加载
+  const { initializeDatabase, getDatabase, closeDatabase } = await import("../src/app/api/utils/db-core");
+  const { insertTradeEvent } = await import("../src/app/api/utils/trade-events-queries");
+  const { updateListenerCursor, getListenerCursor } = await import("../src/app/api/utils/listener-cursor-queries");
+  const { recordTradeDeadLetter } = await import("../src/app/api/utils/dead-letter-queries");
+  const { getKlineByTimestamp } = await import("../src/app/api/utils/klines-queries");
+  const { klineService, processTradeForKlines } = await import("../src/services/kline");
+  const { findReorgBlock, rollbackTradeEvents } = await import("../src/services/trade-listener");
+
+  // 模拟节点：按区块号返回主链上的区块，不支持合约调用
+  const createChainClient = (canonicalHashes: Record<number, string>) => ({
+    getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({
+      number: blockNumber,
+      hash: canonicalHashes[Number(blockNumber)] ?? blockHash(Number(blockNumber)),
+      timestamp: BigInt(0)
+    }),
+    readContract: async () => {
+      throw new Error("readContract is not available in the reorg test");
+    }
+  }) as unknown as ListenerClient;
+
+  try {
+    await initializeDatabase();
+    const db = await getDatabase();
+
+    // 三笔成交：A(10 号区块)、B(11 号区块) 在同一分钟，C(12 号区块) 在下一分钟
+    const periodStart = Math.floor((Date.now() - 10 * MINUTE_MS) / MINUTE_MS) * MINUTE_MS;
+    const trades = [
+      { block: 10, time: periodStart + 5000, amount: "100", price: "0.001" },
+      { block: 11, time: periodStart + 20000, amount: "200", price: "0.002" },
+      { block: 12, time: periodStart + MINUTE_MS + 5000, amount: "300", price: "0.003" }
+    ].map((trade) => ({
+      network: NETWORK,
+      tx_hash: "0x" + trade.block.toString(16).padStart(64, "a"),
+      user_address: "0x2222222222222222222222222222222222222222",
+      token_amount: trade.amount,
+      eth_amount: "0.1",
+      token_address: TOKEN_ADDRESS,
+      isBuy: true,
+      price: trade.price,
+      block_number: trade.block,
+      block_hash: blockHash(trade.block),
+      log_index: 0,
+      timestamp: new Date(trade.time).toISOString()
+    }));
+
+    // 与监听器一致：入库后计入K线
+    const applyTrade = async (trade: (typeof trades)[number]) => {
+      await processTradeForKlines({
+        amount: trade.token_amount,
+        quoteAmount: trade.eth_amount,
+        isBuy: trade.isBuy,
+        price: trade.price,
+        address: TOKEN_ADDRESS,
+        network: NETWORK,
+        timestamp: new Date(trade.timestamp).getTime(),
+        txHash: trade.tx_hash,
+        logIndex: trade.log_index
+      });
+    };
+    for (const trade of trades) {
+      await insertTradeEvent(trade);
+      await applyTrade(trade);
+    }
+    await updateListenerCursor(NETWORK, "pool_trade", BigInt(12), blockHash(12));
+    await recordTradeDeadLetter({
+      network: NETWORK,
+      tx_hash: "0x" + "d".repeat(64),
+      log_index: 0,
+      block_number: 12,
+      pool_address: POOL_ADDRESS,
+      payload: "{}",
+      error: "orphaned",
+      retryDelaySeconds: 30
+    });
+
+    const getKline = (interval: "30s" | "1m", timestamp: number) =>
+      getKlineByTimestamp({ network: NETWORK, pairAddress: TOKEN_ADDRESS, intervalType: interval, timestamp });
+    const countKlineTrades = async (txHash: string) =>
+      (await db.get("SELECT COUNT(*) as count FROM kline_trades WHERE tx_hash = ?", [txHash])).count;
+
+    assert.equal((await getKline("1m", periodStart))?.trade_count, 2);
+    assert.equal(await countKlineTrades(trades[2].tx_hash), 2);
+
+    console.log("🔧 Testing reorg detection...");
+    const unchangedChain = createChainClient({});
+    assert.equal(await findReorgBlock(CHAIN_ID, unchangedChain, BigInt(12)), null);
+
+    const forkedChain = createChainClient({ 11: blockHash(11, "b"), 12: blockHash(12, "b") });
+    assert.equal(await findReorgBlock(CHAIN_ID, forkedChain, BigInt(12)), BigInt(11));
+
+    // 节点重启后链高度低于游标：已入库的交易区块都不在链上，从创世区块开始回滚
+    const resetChain = createChainClient({});
+    assert.equal(await findReorgBlock(CHAIN_ID, resetChain, BigInt(5)), BigInt(0));
+    console.log("✅ Reorg starts after the last trade block still on the canonical chain");
+
+    console.log("🔧 Testing rollback...");
+    await rollbackTradeEvents(CHAIN_ID, forkedChain, POOL_ADDRESS, BigInt(11));
+
+    const remaining = await db.all("SELECT block_number FROM trade_events WHERE network = ?", [NETWORK]);
+    assert.deepEqual(remaining.map((row) => row.block_number), [10]);
+    const deadLetters = await db.get("SELECT COUNT(*) as count FROM trade_dead_letters WHERE network = ?", [NETWORK]);
+    assert.equal(deadLetters.count, 0);
+
+    const cursor = await getListenerCursor(NETWORK, "pool_trade");
+    assert.equal(cursor?.blockNumber, BigInt(10));
+    assert.equal(cursor?.blockHash, blockHash(10));
+    console.log("✅ Orphaned trades and dead letters removed, cursor moved back to block 10");
+
+    console.log("🔧 Testing kline rebuild...");
+    for (const interval of ["30s", "1m"] as const) {
+      const rebuilt = await getKline(interval, periodStart);
+      assert.equal(rebuilt?.trade_count, 1, `${interval} kline should only count trade A`);
+      assert.equal(rebuilt?.volume, "100");
+      assert.equal(rebuilt?.close, "0.001");
+    }
+    // C 所在的分钟只剩按 A 收盘价生成的平盘K线
+    const flat = await getKline("1m", periodStart + MINUTE_MS);
+    assert.equal(flat?.trade_count, 0);
+    assert.equal(flat?.close, "0.001");
+
+    assert.equal(await countKlineTrades(trades[0].tx_hash), 2);
+    assert.equal(await countKlineTrades(trades[1].tx_hash), 0);
+    assert.equal(await countKlineTrades(trades[2].tx_hash), 0);
+    console.log("✅ Klines rebuilt from remaining trades and orphaned kline trade marks cleared");
+
+    console.log("🔧 Testing re-mined trade...");
+    // C 重新打包进主链的 12 号区块后再次入库，不能因为旧的计入记录被跳过
+    const remined = { ...trades[2], block_hash: blockHash(12, "b") };
+    await insertTradeEvent(remined);
+    await applyTrade(remined);
+    const reapplied = await getKline("1m", periodStart + MINUTE_MS);
+    assert.equal(reapplied?.trade_count, 1);
+    assert.equal(reapplied?.volume, "300");
+    assert.equal(await countKlineTrades(remined.tx_hash), 2);
+    console.log("✅ Re-mined trade counted into its kline again");
+
+    console.log("\n✅ Reorg test completed successfully!");
+  } catch (error) {
+    console.error("❌ Reorg test failed:", error);
+    process.exitCode = 1;
+  } finally {
+    klineService.stop();
+    await closeDatabase();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    // 未结束周期的K线完成定时器仍在等待，直接退出
+    process.exit();
+  }
+}
+
+// 运行测试
+testReorg();
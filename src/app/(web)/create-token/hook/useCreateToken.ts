@@ -164,7 +164,7 @@ export function useCreateToken() {
         setIsCreating(false);
         
         try {
-          // 保存代币信息到 meme_tokens 表
+          // 代币由服务端根据链上事件登记，这里只提交上传的图标等链下元数据
           const response = await fetch('/api/meme-tokens', {
             method: 'POST',
             headers: {
@@ -172,26 +172,17 @@ export function useCreateToken() {
             },
             body: JSON.stringify({
               address: contractResult.tokenAddress,
-              symbol: tokenData.symbol,
-              name: tokenData.name,
-              decimals: 18, // 默认18位小数
-              total_supply: '1000000000000000000000000', // 默认1M代币，18位小数
-              logo_uri: imageUrl,
-              description: tokenData.description,
-              twitterAddress: tokenData.twitter,
-              telegramAddress: tokenData.telegram,
-              websiteAddress: tokenData.website,
-              is_verified: false
+              logo_uri: imageUrl
             })
           });
 
           const result = await response.json();
           if (!result.success) {
-            console.warn('保存代币到数据库失败:', result.error);
+            console.warn('提交代币元数据失败:', result.error);
             // 不阻断用户流程，只记录警告
           }
         } catch (dbError) {
-          console.warn('保存代币到数据库时发生错误:', dbError);
+          console.warn('提交代币元数据时发生错误:', dbError);
           // 不阻断用户流程，只记录警告
         }
 
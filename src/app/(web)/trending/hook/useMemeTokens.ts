@@ -9,9 +9,16 @@ interface MemeToken {
   name: string;
   decimals: number;
   total_supply: string;
+  price_eth?: number;
   price_usd?: number;
   market_cap?: number;
   volume_24h?: number;
+  volume_24h_eth?: number;
+  trade_count_24h?: number;
+  buy_count_24h?: number;
+  sell_count_24h?: number;
+  circulating_supply?: string;
+  circulating_market_cap?: number;
   price_change_24h?: number;
   description?: string;
   logo_uri?: string;
@@ -19,6 +26,8 @@ interface MemeToken {
   twitter_address?: string;
   telegram_address?: string;
   is_verified: boolean;
+  lifecycle_status: 'created' | 'trading' | 'graduated';
+  graduated_at?: string;
   created_at: string;
   updated_at: string;
 }
@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { createChart, CandlestickData, Time, ColorType, IChartApi, ISeriesApi, CandlestickSeries, LineSeries, AreaSeries } from 'lightweight-charts';
+import { createChart, CandlestickData, Time, ColorType, IChartApi, ISeriesApi, CandlestickSeries, LineSeries, AreaSeries, LogicalRangeChangeEventHandler } from 'lightweight-charts';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -20,6 +20,12 @@ interface ApiKlineData {
   volume: string;
 }
 
+// 历史K线的周期和每页条数
+const HISTORY_INTERVAL = '30s';
+const HISTORY_PAGE_SIZE = 100;
+// 可见区域左侧距最早一根K线少于该条数时加载更早的数据
+const LOAD_OLDER_THRESHOLD = 10;
+
 interface TradingChartProps {
   symbol?: string;
   tokenName?: string;
@@ -83,6 +89,17 @@ export default function TradingChart({
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   const [historyLoadError, setHistoryLoadError] = useState<string | null>(null);
   const isInitializedRef = useRef(false); // 防止重复初始化
+  const historyCursorRef = useRef<number | null>(null); // 加载更早K线的翻页游标，没有更早的数据时为 null
+  const hasMoreHistoryRef = useRef(false); // 服务端是否还有更早的K线
+  const isLoadingOlderRef = useRef(false);
+  // 图表只在挂载时创建一次，事件回调通过 ref 取最新的处理函数
+  const onCrosshairMoveRef = useRef(onCrosshairMove);
+  const onClickRef = useRef(onClick);
+  const pendingVisibleRangeRef = useRef<{ from: number; to: number } | null>(null); // 拼接更早的K线后需要恢复的可见区域
+  // 实时K线只需 update 最后一根：seriesDataRef 为已写入图表系列的数据，liveDataRef 为在其基础上只追加/更新了 pendingLiveBarsRef 的数据
+  const seriesDataRef = useRef<CandlestickData[] | null>(null);
+  const liveDataRef = useRef<CandlestickData[] | null>(null);
+  const pendingLiveBarsRef = useRef<CandlestickData[]>([]);
 
   // API数据转换：将API返回的数据转换为图表所需格式
   const convertApiDataToCandlestick = useCallback((apiData: ApiKlineData[]): CandlestickData[] => {
@@ -162,7 +179,7 @@ export default function TradingChart({
     network: string,
     pairAddress: string,
     interval: string = '1m',
-    limit: number = 100
+    limit: number = HISTORY_PAGE_SIZE
   ): Promise<CandlestickData[]> => {
     // 防止重复请求
     if (isLoadingHistory) {
@@ -178,7 +195,8 @@ export default function TradingChart({
         network,
         pair_address: pairAddress,
         interval,
-        limit: limit.toString()
+        limit: limit.toString(),
+        fill: 'true' // 补齐没有成交的周期，保持时间轴连续
       });
 
       const response = await fetch(`/api/klines?${params}`);
@@ -193,6 +211,10 @@ export default function TradingChart({
         throw new Error(result.error || 'API返回错误');
       }
 
+      // 记录翻页游标，向左拖动时从这里继续加载
+      historyCursorRef.current = result.pagination?.next_cursor ?? null;
+      hasMoreHistoryRef.current = result.pagination?.has_more ?? false;
+
       // 转换数据格式
       const candlestickData = convertApiDataToCandlestick(result.data || []);
       
@@ -213,6 +235,75 @@ export default function TradingChart({
     }
   }, [convertApiDataToCandlestick, isLoadingHistory]);
 
+  // 按翻页游标加载更早的历史K线，拼接到图表数据前面；上一页还在加载或已经没有更早的数据时不再请求
+  const loadOlderKlines = useCallback(async () => {
+    const before = historyCursorRef.current;
+    if (!hasMoreHistoryRef.current || before === null || isLoadingOlderRef.current) {
+      return;
+    }
+
+    try {
+      isLoadingOlderRef.current = true;
+
+      const params = new URLSearchParams({
+        network,
+        pair_address: pairAddress,
+        interval: HISTORY_INTERVAL,
+        limit: HISTORY_PAGE_SIZE.toString(),
+        before: before.toString(),
+        fill: 'true'
+      });
+
+      const response = await fetch(`/api/klines?${params}`);
+      
+      if (!response.ok) {
+        throw new Error(`API请求失败: ${response.status} ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      
+      if (!result.success) {
+        throw new Error(result.error || 'API返回错误');
+      }
+
+      historyCursorRef.current = result.pagination?.next_cursor ?? null;
+      hasMoreHistoryRef.current = result.pagination?.has_more ?? false;
+
+      const olderData = convertApiDataToCandlestick(result.data || []);
+      if (olderData.length === 0) {
+        return;
+      }
+
+      console.log(`⏪ 加载了 ${olderData.length} 条更早的K线数据`);
+
+      // 记录当前可见区域，写入新数据后按新增的条数平移，保持用户正在查看的位置
+      const visibleRange = chartRef.current?.timeScale().getVisibleLogicalRange() ?? null;
+      setChartData(prev => {
+        const earliestTime = prev.length > 0 ? (prev[0].time as number) : Infinity;
+        const prependData = olderData.filter(item => (item.time as number) < earliestTime);
+        if (visibleRange) {
+          pendingVisibleRangeRef.current = {
+            from: visibleRange.from + prependData.length,
+            to: visibleRange.to + prependData.length
+          };
+        }
+        return [...prependData, ...prev];
+      });
+    } catch (error) {
+      console.error('加载更早的K线数据失败:', error instanceof Error ? error.message : error);
+    } finally {
+      isLoadingOlderRef.current = false;
+    }
+  }, [network, pairAddress, convertApiDataToCandlestick]);
+
+  // 可见区域变化的回调在图表创建时订阅，通过 ref 调用最新的加载函数
+  const loadOlderKlinesRef = useRef(loadOlderKlines);
+  useEffect(() => {
+    loadOlderKlinesRef.current = loadOlderKlines;
+    onCrosshairMoveRef.current = onCrosshairMove;
+    onClickRef.current = onClick;
+  }, [loadOlderKlines, onCrosshairMove, onClick]);
+
   // WebSocket K线数据处理
   const handleKlineUpdate = useCallback((klineData: KlineData) => {
     console.log('🔄 收到WebSocket K线数据:', klineData);
@@ -244,6 +335,15 @@ export default function TradingChart({
 
     // 更新图表数据
     setChartData(prev => {
+      // 在已写入图表的数据上只变动最后一根时，由数据 effect 用 series.update 写入，否则整体 setData
+      if (prev === seriesDataRef.current) {
+        pendingLiveBarsRef.current = [newCandlestick];
+      } else if (prev === liveDataRef.current) {
+        pendingLiveBarsRef.current.push(newCandlestick);
+      } else {
+        pendingLiveBarsRef.current = [];
+      }
+
       const updated = [...prev];
       const lastIndex = updated.length - 1;
       
@@ -255,9 +355,12 @@ export default function TradingChart({
         // 保持最多1000条数据
         if (updated.length > 1000) {
           updated.shift();
+          // 去掉了最早的K线，需要整体写入
+          pendingLiveBarsRef.current = [];
         }
       }
       
+      liveDataRef.current = pendingLiveBarsRef.current.length > 0 ? updated : null;
       return updated;
     });
 
@@ -290,29 +393,8 @@ export default function TradingChart({
     }
     
     console.log('💰 价格信息已更新:', { formattedPrice, volume: volume.toFixed(2) });
-    
-    // 更新图表系列
-    if (candlestickSeriesRef.current && typeof candlestickSeriesRef.current.update === 'function') {
-      try {
-        let updateData: any;
-        
-        if (seriesType === 'candlestick') {
-          updateData = newCandlestick;
-        } else if (seriesType === 'line' || seriesType === 'area') {
-          updateData = {
-            time: newCandlestick.time,
-            value: newCandlestick.close,
-          };
-        } else {
-          updateData = newCandlestick;
-        }
-        
-        candlestickSeriesRef.current.update(updateData);
-      } catch (error) {
-        console.error('更新图表数据失败:', error);
-      }
-    }
-  }, [seriesType]);
+    // 图表系列由图表数据变化的 effect 用 series.update 写入变动的K线
+  }, []);
 
   // WebSocket 连接
   const { 
@@ -385,16 +467,11 @@ export default function TradingChart({
     });
 
     // 添加事件监听器，模拟 wrapper 的事件处理
-    if (onCrosshairMove) {
-      chart.subscribeCrosshairMove(onCrosshairMove);
-    }
-    
-    if (onClick) {
-      chart.subscribeClick(onClick);
-    }
+    chart.subscribeCrosshairMove((param) => onCrosshairMoveRef.current?.(param));
+    chart.subscribeClick((param) => onClickRef.current?.(param));
 
     return chart;
-  }, [onCrosshairMove, onClick]);
+  }, []);
 
   // 类似 lightweight-charts-react-wrapper 的 CandlestickSeries 组件功能
   const createCandlestickSeries = useCallback((chart: any) => {
@@ -531,83 +608,32 @@ export default function TradingChart({
     }
   }, []);
 
-  // 主要的 useEffect，模拟 wrapper 的组件生命周期
+  // 创建图表，只在挂载时执行一次；数据变化时通过 setData 写入图表系列，不重建图表
   useEffect(() => {
     const chart = createChartInstance();
     if (!chart) return;
 
     const seriesResult = createCandlestickSeries(chart);
     const candlestickSeries = seriesResult.series;
-    const detectedSeriesType = seriesResult.type;
     
     // 更新图表类型状态
-    setSeriesType(detectedSeriesType);
+    setSeriesType(seriesResult.type);
     
     if (!candlestickSeries) {
       console.warn('无法创建图表系列，将显示静态图表');
-      // 不返回，继续执行，显示静态版本
-    }
-    
-    try {
-      // 设置初始数据，模拟 wrapper 的 data prop
-      console.log('📊 准备设置图表数据:', {
-        chartDataLength: chartData.length,
-        detectedSeriesType,
-        hasValidSeries: !!(candlestickSeries && typeof candlestickSeries.setData === 'function'),
-        sampleChartData: chartData.slice(0, 3)
-      });
-
-      if (candlestickSeries && typeof candlestickSeries.setData === 'function') {
-        // 根据图表类型转换数据格式
-        let dataToSet: any;
-        
-        if (detectedSeriesType === 'candlestick') {
-          // 蜡烛图使用原始数据
-          dataToSet = chartData;
-          console.log('🕯️ 使用蜡烛图格式，数据样例:', dataToSet.slice(0, 2));
-        } else if (detectedSeriesType === 'line' || detectedSeriesType === 'area') {
-          // 线条图和区域图只需要 time 和 value（使用 close 价格）
-          dataToSet = chartData.map(item => ({
-            time: item.time,
-            value: item.close,
-          }));
-          console.log('📈 使用线条/区域图格式，数据样例:', dataToSet.slice(0, 2));
-        } else {
-          // mock 类型不需要实际设置数据
-          dataToSet = chartData;
-          console.log('🎭 使用模拟格式');
-        }
-        
-        if (detectedSeriesType !== 'mock') {
-          console.log('⚡ 正在设置图表数据...', {
-            seriesType: detectedSeriesType,
-            dataLength: dataToSet.length,
-            firstData: dataToSet[0],
-            lastData: dataToSet[dataToSet.length - 1]
-          });
-          
-          candlestickSeries.setData(dataToSet);
-          console.log(`✅ 图表数据设置成功 (${detectedSeriesType} 格式, ${dataToSet.length} 条数据)`);
-        }
-        updatePriceInfo(chartData);
-      } else {
-        console.warn('⚠️ series.setData 方法不可用，仅更新价格信息');
-        updatePriceInfo(chartData);
-      }
-    } catch (error) {
-      console.error('❌ 设置图表数据失败:', error);
-      console.error('失败时的数据状态:', {
-        chartDataLength: chartData.length,
-        detectedSeriesType,
-        sampleData: chartData.slice(0, 3)
-      });
-      // 即使设置数据失败，也要更新价格信息
-      updatePriceInfo(chartData);
     }
 
     chartRef.current = chart;
     candlestickSeriesRef.current = candlestickSeries;
 
+    // 向左拖动到接近最早的K线时自动加载更早的历史数据
+    const handleVisibleRangeChange: LogicalRangeChangeEventHandler = (range) => {
+      if (range && range.from < LOAD_OLDER_THRESHOLD) {
+        loadOlderKlinesRef.current();
+      }
+    };
+    chart.timeScale().subscribeVisibleLogicalRangeChange(handleVisibleRangeChange);
+
     // 响应式调整
     const handleResize = () => {
       if (chartContainerRef.current && chart) {
@@ -623,6 +649,9 @@ export default function TradingChart({
 
     return () => {
       window.removeEventListener('resize', handleResize);
+      chart.timeScale().unsubscribeVisibleLogicalRangeChange(handleVisibleRangeChange);
+      chartRef.current = null;
+      candlestickSeriesRef.current = null;
       try {
         if (chart && typeof chart.remove === 'function') {
           chart.remove();
@@ -631,7 +660,57 @@ export default function TradingChart({
         console.error('Error removing chart:', error);
       }
     };
-  }, [createChartInstance, createCandlestickSeries, chartData, updatePriceInfo]);
+  }, [createChartInstance, createCandlestickSeries]);
+
+  // 图表数据变化时写入图表系列并更新价格信息：实时K线只 update 变动的K线，加载历史和拼接更早的K线时整体 setData
+  useEffect(() => {
+    const series = candlestickSeriesRef.current;
+    const liveBars = chartData === liveDataRef.current ? pendingLiveBarsRef.current : null;
+    liveDataRef.current = null;
+    pendingLiveBarsRef.current = [];
+
+    // 线条图和区域图只需要 time 和 value（使用 close 价格）
+    const toLineData = (item: CandlestickData) => ({ time: item.time, value: item.close });
+
+    const writeSeries = (update: boolean) => {
+      if (!series || typeof series.setData !== 'function') return;
+      if (seriesType === 'candlestick') {
+        if (update && liveBars) {
+          liveBars.forEach(bar => series.update(bar));
+        } else {
+          series.setData(chartData);
+        }
+      } else if (seriesType === 'line' || seriesType === 'area') {
+        const lineSeries = series as unknown as ISeriesApi<'Line'>;
+        if (update && liveBars) {
+          liveBars.forEach(bar => lineSeries.update(toLineData(bar)));
+        } else {
+          lineSeries.setData(chartData.map(toLineData));
+        }
+      }
+    };
+
+    try {
+      try {
+        writeSeries(true);
+      } catch (error) {
+        // 实时K线早于图表最后一根等无法 update 的情况，退回整体写入
+        if (!liveBars) throw error;
+        writeSeries(false);
+      }
+      seriesDataRef.current = chartData;
+    } catch (error) {
+      console.error('❌ 设置图表数据失败:', error, { chartDataLength: chartData.length, seriesType });
+      seriesDataRef.current = null;
+    }
+    updatePriceInfo(chartData);
+
+    // 拼接更早的K线后恢复之前的可见区域
+    if (pendingVisibleRangeRef.current && chartRef.current) {
+      chartRef.current.timeScale().setVisibleLogicalRange(pendingVisibleRangeRef.current);
+      pendingVisibleRangeRef.current = null;
+    }
+  }, [chartData, seriesType, updatePriceInfo]);
 
   // 外部数据变化时更新图表，模拟 wrapper 的 reactive 功能
   useEffect(() => {
@@ -662,7 +741,7 @@ export default function TradingChart({
       isInitializedRef.current = true;
       
       // 获取历史K线数据 - 使用30秒间隔获取更详细的历史数据
-      const historicalData = await fetchHistoricalKlines(network, pairAddress, '30s', 100);
+      const historicalData = await fetchHistoricalKlines(network, pairAddress, HISTORY_INTERVAL, HISTORY_PAGE_SIZE);
       
       if (historicalData.length > 0) {
         setChartData(historicalData);
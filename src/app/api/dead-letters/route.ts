@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getTradeDeadLetters,
+  redriveTradeDeadLetters,
+  type TradeDeadLetterStatus
+} from '../utils/dead-letter-queries';
+
+// 支持筛选的死信状态
+const VALID_STATUSES: TradeDeadLetterStatus[] = ['pending', 'resolved', 'exhausted'];
+
+/**
+ * GET /api/dead-letters
+ * 查询处理失败的 Trade 事件（死信队列）
+ *
+ * 查询参数:
+ * - network: 链 ID (可选)
+ * - status: pending | resolved | exhausted (可选)
+ * - limit: 每页数量，1-1000，默认 50
+ * - offset: 偏移量，默认 0
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const network = searchParams.get('network');
+    const status = searchParams.get('status') as TradeDeadLetterStatus | null;
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    if (network && !/^\d+$/.test(network)) {
+      return NextResponse.json(
+        { success: false, error: '无效的 network 参数，应为链 ID' },
+        { status: 400 }
+      );
+    }
+
+    if (status && !VALID_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `无效的 status 参数，支持: ${VALID_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 1000 || isNaN(offset) || offset < 0) {
+      return NextResponse.json(
+        { success: false, error: 'limit 必须在 1-1000 之间，offset 不能为负数' },
+        { status: 400 }
+      );
+    }
+
+    const { items, total } = await getTradeDeadLetters({
+      network: network || undefined,
+      status: status || undefined,
+      limit,
+      offset
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: items.map((item) => ({ ...item, payload: JSON.parse(item.payload) })),
+      pagination: { total, limit, offset }
+    });
+  } catch (error) {
+    console.error('获取死信队列失败:', error);
+    return NextResponse.json(
+      { success: false, error: '服务器内部错误' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/dead-letters
+ * 重新投递死信：把未成功的记录设为立即重试，由监听器的后台重试任务处理
+ *
+ * 请求体:
+ * - ids: 要重新投递的死信 ID 列表 (可选)
+ * - network: 只重新投递该链的死信 (可选)
+ * - status: 只重新投递该状态的死信，pending | exhausted (可选)
+ * 不传 ids 时按 network/status 批量重新投递
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { ids, network, status } = body as {
+      ids?: unknown;
+      network?: unknown;
+      status?: unknown;
+    };
+
+    if (ids !== undefined && (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => Number.isInteger(id) && id > 0))) {
+      return NextResponse.json(
+        { success: false, error: 'ids 必须是非空的正整数数组' },
+        { status: 400 }
+      );
+    }
+
+    if (network !== undefined && (typeof network !== 'string' || !/^\d+$/.test(network))) {
+      return NextResponse.json(
+        { success: false, error: '无效的 network 参数，应为链 ID' },
+        { status: 400 }
+      );
+    }
+
+    if (status !== undefined && status !== 'pending' && status !== 'exhausted') {
+      return NextResponse.json(
+        { success: false, error: '无效的 status 参数，支持: pending, exhausted' },
+        { status: 400 }
+      );
+    }
+
+    const redriven = await redriveTradeDeadLetters({
+      ids: ids as number[] | undefined,
+      network: network as string | undefined,
+      status: status as 'pending' | 'exhausted' | undefined
+    });
+
+    return NextResponse.json({ success: true, data: { redriven } });
+  } catch (error) {
+    console.error('重新投递死信失败:', error);
+    return NextResponse.json(
+      { success: false, error: '服务器内部错误' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getFarmEvents,
+  getFarmStakeHistory,
+  getFarmPoolStakers,
+  getUserFarmStakes,
+  type FarmEventType
+} from '../utils/farm-queries';
+
+// 支持筛选的事件类型
+const VALID_EVENT_TYPES: FarmEventType[] = ['DEPOSIT', 'WITHDRAW', 'EMERGENCY_WITHDRAW'];
+
+/**
+ * GET /api/farm
+ * 查询 Master 农场的质押记录
+ *
+ * 查询参数:
+ * - network: 链 ID (必需)
+ * - action: 查询类型 (必需)
+ *   - stakers: 各池子的质押人数和总质押数量
+ *   - history: 质押数量随时间的变化，需要 pid，传入 user 时为该用户的质押
+ *   - timeline: 存入/提取事件时间线，可按 pid、user、type 筛选，支持 limit、offset
+ *   - positions: 用户在各池子当前的质押数量，需要 user
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const network = searchParams.get('network');
+    const action = searchParams.get('action');
+    const pidParam = searchParams.get('pid');
+    const user = searchParams.get('user');
+    const type = searchParams.get('type');
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    if (!network || !/^\d+$/.test(network)) {
+      return NextResponse.json(
+        { success: false, error: '缺少或无效的 network 参数，应为链 ID' },
+        { status: 400 }
+      );
+    }
+
+    if (pidParam !== null && !/^\d+$/.test(pidParam)) {
+      return NextResponse.json(
+        { success: false, error: '无效的 pid 参数' },
+        { status: 400 }
+      );
+    }
+    const pid = pidParam !== null ? parseInt(pidParam) : undefined;
+
+    if (user && !/^0x[a-fA-F0-9]{40}$/.test(user)) {
+      return NextResponse.json(
+        { success: false, error: '无效的用户地址格式' },
+        { status: 400 }
+      );
+    }
+
+    switch (action) {
+      case 'stakers':
+        const stakers = await getFarmPoolStakers(network);
+        return NextResponse.json({ success: true, data: stakers });
+
+      case 'history':
+        if (pid === undefined) {
+          return NextResponse.json(
+            { success: false, error: '缺少 pid 参数' },
+            { status: 400 }
+          );
+        }
+        const history = await getFarmStakeHistory({
+          network,
+          pid,
+          userAddress: user || undefined
+        });
+        return NextResponse.json({ success: true, data: history });
+
+      case 'timeline':
+        const eventType = type?.toUpperCase() as FarmEventType | undefined;
+        if (eventType && !VALID_EVENT_TYPES.includes(eventType)) {
+          return NextResponse.json(
+            { success: false, error: `无效的事件类型，支持: ${VALID_EVENT_TYPES.join(', ')}` },
+            { status: 400 }
+          );
+        }
+        if (isNaN(limit) || limit < 1 || limit > 1000 || isNaN(offset) || offset < 0) {
+          return NextResponse.json(
+            { success: false, error: 'limit 必须在 1-1000 之间，offset 不能为负数' },
+            { status: 400 }
+          );
+        }
+        const events = await getFarmEvents({
+          network,
+          pid,
+          userAddress: user || undefined,
+          eventType,
+          limit,
+          offset
+        });
+        return NextResponse.json({ success: true, data: events });
+
+      case 'positions':
+        if (!user) {
+          return NextResponse.json(
+            { success: false, error: '缺少 user 参数' },
+            { status: 400 }
+          );
+        }
+        const positions = await getUserFarmStakes(network, user);
+        return NextResponse.json({ success: true, data: positions });
+
+      default:
+        return NextResponse.json(
+          { success: false, error: '无效的 action 参数，支持: stakers, history, timeline, positions' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('获取农场数据失败:', error);
+    return NextResponse.json(
+      { success: false, error: '服务器内部错误' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getKlines } from '../utils/klines-queries';
+import {
+  fillKlineGaps,
+  getKlines,
+  getKlinesWithOffset,
+  getKlineOffsetSourceInterval,
+  getKlineTimeRange,
+  isKlineOffsetAligned,
+  KLINE_INTERVALS,
+  type KlineInterval
+} from '../utils/klines-queries';
 
 // 网络名称到 Chain ID 的映射
 const NETWORK_MAPPING: Record<string, string> = {
@@ -34,6 +43,29 @@ function normalizeNetworkId(network: string): string {
   return network;
 }
 
+// 解析时区偏移参数，支持 '+08:00'、'-0530'、'UTC+8'、小时数 '8' 或三位分钟数 '480'，返回相对 UTC 的分钟数；格式无效时返回 null
+// 查询字符串中未编码的 '+' 会被解析为空格，因此正号可以省略；一到两位的数字按小时处理，四位数字按 HHMM 处理
+function parseTimezoneOffset(tz: string): number | null {
+  const value = tz.trim();
+  if (/^[+-]?\d{3}$/.test(value)) {
+    return parseInt(value, 10);
+  }
+
+  const match = /^(?:UTC)?([+-]?)(\d{1,2}):?(\d{2})?$/i.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3] || '0', 10);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+// 解析时间参数：纯数字为毫秒时间戳，否则按 ISO 时间解析；格式无效时返回 null
+function parseTimeParam(value: string): number | null {
+  const time = /^\d+$/.test(value) ? Number(value) : new Date(value).getTime();
+  return isNaN(time) ? null : time;
+}
+
 /**
  * GET /api/klines
  * 获取历史K线数据
@@ -42,7 +74,15 @@ function normalizeNetworkId(network: string): string {
  * - network: 网络标识 (必需)
  * - pair_address: 交易对地址 (必需)
  * - limit: 返回条数，默认100，最大1000 (可选)
- * - interval: K线周期，支持 '30s', '1m', '15m'，默认'1m' (可选)
+ * - interval: K线周期，支持 '30s', '1m', '15m', '1h', '4h', '1d', '1w'，默认'1m' (可选)
+ * - tz: 时区偏移，如 '+08:00'、'-05:30'、小时数 '8' 或三位分钟数 '480'，需为15分钟的整数倍，默认 UTC (可选)
+ *   K线周期默认按 UTC 对齐，指定后 1h 及以上的周期按该时区的本地时间对齐
+ * - from / to: 只返回开始时间在该范围内（含）的K线，毫秒时间戳或 ISO 时间 (可选)
+ * - before: 翻页游标，只返回开始时间早于该值的K线，取上一页响应中的 pagination.next_cursor (可选)
+ * - fill: 为 true 时用上一根K线的收盘价补齐没有成交的周期（平盘K线，成交量为 0），时间轴连续，默认 false (可选)
+ * 
+ * 结果按时间倒序，返回范围内最近的 limit 根K线；pagination.next_cursor 为本页最早一根K线的开始时间，
+ * 没有更早的数据时为 null
  * 
  * 返回格式:
  * {
@@ -57,10 +97,20 @@ function normalizeNetworkId(network: string): string {
  *       "high": "105.0",
  *       "low": "98.0",
  *       "close": "103.0",
- *       "volume": "1000.0"
+ *       "volume": "1000.0",
+ *       "quote_volume": "0.5",
+ *       "buy_volume": "600.0",
+ *       "sell_volume": "400.0",
+ *       "trade_count": 12,
+ *       "unique_traders": 5,
+ *       "is_complete": 1
  *     }
  *   ],
- *   "count": 50
+ *   "count": 50,
+ *   "pagination": {
+ *     "next_cursor": 1704067200000,
+ *     "has_more": true
+ *   }
  * }
  */
 export async function GET(request: NextRequest) {
@@ -72,6 +122,11 @@ export async function GET(request: NextRequest) {
     const pairAddress = searchParams.get('pair_address');
     const limitParam = searchParams.get('limit');
     const interval = searchParams.get('interval') || '1m';
+    const tz = searchParams.get('tz');
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+    const beforeParam = searchParams.get('before');
+    const fillParam = searchParams.get('fill');
     
     // 验证必需参数
     if (!rawNetwork) {
@@ -98,7 +153,7 @@ export async function GET(request: NextRequest) {
     }
     
     // 验证interval参数
-    const validIntervals = ['30s', '1m', '15m'];
+    const validIntervals: string[] = KLINE_INTERVALS;
     if (!validIntervals.includes(interval)) {
       return NextResponse.json(
         { 
@@ -109,6 +164,58 @@ export async function GET(request: NextRequest) {
       );
     }
     
+    // 验证tz参数
+    const offsetMinutes = tz ? parseTimezoneOffset(tz) : 0;
+    if (offsetMinutes === null || offsetMinutes % 15 !== 0 || Math.abs(offsetMinutes) > 14 * 60) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Invalid tz. Must be a UTC offset such as +08:00 or -05:30 in multiples of 15 minutes' 
+        },
+        { status: 400 }
+      );
+    }
+    
+    // 验证时间范围和翻页游标参数
+    const timeParams: Record<string, number | undefined> = {};
+    for (const [name, value] of [['from', fromParam], ['to', toParam], ['before', beforeParam]] as const) {
+      if (value === null) continue;
+      const time = parseTimeParam(value);
+      if (time === null) {
+        return NextResponse.json(
+          { 
+            success: false, 
+            error: `Invalid ${name} parameter. Must be a millisecond timestamp or ISO date.` 
+          },
+          { status: 400 }
+        );
+      }
+      timeParams[name] = time;
+    }
+    const { from, to, before } = timeParams;
+    
+    if (from !== undefined && to !== undefined && from > to) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Invalid time range: from must not be later than to' 
+        },
+        { status: 400 }
+      );
+    }
+    
+    // 验证fill参数
+    if (fillParam !== null && !['true', 'false', '1', '0'].includes(fillParam)) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'Invalid fill parameter. Must be true or false.' 
+        },
+        { status: 400 }
+      );
+    }
+    const fill = fillParam === 'true' || fillParam === '1';
+    
     // 处理limit参数
     let limit = 100; // 默认值
     if (limitParam) {
@@ -134,17 +241,64 @@ export async function GET(request: NextRequest) {
       pairAddress,
       intervalType: interval,
       limit,
+      from,
+      to,
+      before,
+      fill,
       orderDirection: 'DESC'
     });
     
-    // 查询K线数据
-    const klines = await getKlines({
-      network,
-      pairAddress,
-      intervalType: interval as '30s' | '1m' | '15m',
-      limit,
-      orderDirection: 'DESC'
-    });
+    // 查询K线数据：时区偏移不是周期的整数倍时，用更短周期的K线按该时区重新汇总
+    const offsetAligned = isKlineOffsetAligned(interval as KlineInterval, offsetMinutes);
+    const storedKlines = offsetAligned
+      ? await getKlines({
+          network,
+          pairAddress,
+          intervalType: interval as KlineInterval,
+          startTime: from?.toString(),
+          endTime: to?.toString(),
+          before: before?.toString(),
+          limit,
+          orderDirection: 'DESC'
+        })
+      : await getKlinesWithOffset({
+          network,
+          pairAddress,
+          intervalType: interval as KlineInterval,
+          offsetMinutes,
+          limit,
+          fromTimestamp: from,
+          toTimestamp: to,
+          beforeTimestamp: before
+        });
+    
+    // 补齐没有成交的周期
+    const klines = fill
+      ? await fillKlineGaps(storedKlines, {
+          network,
+          pairAddress,
+          intervalType: interval as KlineInterval,
+          offsetMinutes,
+          limit,
+          fromTimestamp: from,
+          toTimestamp: to,
+          beforeTimestamp: before
+        })
+      : storedKlines;
+    
+    // 翻页游标：本页最早一根K线的开始时间，范围内（重新汇总时按来源周期）没有更早的K线时为 null
+    const oldestTimestamp = klines.length > 0 ? Number(klines[klines.length - 1].timestamp) : null;
+    const timeRange = oldestTimestamp !== null
+      ? await getKlineTimeRange({
+          network,
+          pairAddress,
+          intervalType: offsetAligned
+            ? interval as KlineInterval
+            : getKlineOffsetSourceInterval(interval as KlineInterval, offsetMinutes),
+          startTime: from?.toString()
+        })
+      : null;
+    const hasMore = oldestTimestamp !== null && !!timeRange?.earliest && Number(timeRange.earliest) < oldestTimestamp;
     
     console.log('✅ K线查询结果:', {
       resultCount: klines.length,
@@ -155,11 +309,20 @@ export async function GET(request: NextRequest) {
       success: true,
       data: klines,
       count: klines.length,
+      pagination: {
+        next_cursor: hasMore ? oldestTimestamp : null,
+        has_more: hasMore
+      },
       params: {
         network: rawNetwork,          // 原始网络参数
         normalizedNetwork: network,   // 标准化后的网络参数
         pair_address: pairAddress,
         interval,
+        tz: offsetMinutes,
+        from: from ?? null,
+        to: to ?? null,
+        before: before ?? null,
+        fill,
         limit
       },
       debug: {
@@ -1,15 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
-  insertMemeToken,
   upsertMemeToken,
+  updateMemeTokenOffchainMetadata,
   getMemeTokenByAddress,
   getAllMemeTokens,
   searchMemeTokens,
   getMemeTokenStats,
   getLatestMemeTokens,
   memeTokenExists,
-  type CreateMemeTokenData
+  type CreateMemeTokenData,
+  type MemeTokenLifecycleStatus
 } from '../utils/meme-token-queries';
+import { getTokenHolderDistribution } from '../utils/holder-queries';
+
+// 支持筛选的生命周期状态
+const VALID_LIFECYCLE_STATUSES: MemeTokenLifecycleStatus[] = ['created', 'trading', 'graduated'];
 
 // GET - 获取 Meme 代币列表或搜索
 export async function GET(request: NextRequest) {
@@ -22,6 +27,14 @@ export async function GET(request: NextRequest) {
     const offset = parseInt(searchParams.get('offset') || '0');
     const orderBy = searchParams.get('orderBy') as 'created_at' | 'market_cap' | 'volume_24h' || 'created_at';
     const orderDirection = searchParams.get('orderDirection') as 'ASC' | 'DESC' || 'DESC';
+    const lifecycle = searchParams.get('lifecycle');
+
+    if (lifecycle && !VALID_LIFECYCLE_STATUSES.includes(lifecycle as MemeTokenLifecycleStatus)) {
+      return NextResponse.json(
+        { success: false, error: `无效的生命周期状态，支持: ${VALID_LIFECYCLE_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
     switch (action) {
       case 'stats':
@@ -59,6 +72,30 @@ export async function GET(request: NextRequest) {
         }
         return NextResponse.json({ success: true, data: token });
 
+      case 'holders': {
+        const network = searchParams.get('network');
+        if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+          return NextResponse.json(
+            { success: false, error: '缺少或无效的地址参数' },
+            { status: 400 }
+          );
+        }
+        if (!network || !/^\d+$/.test(network)) {
+          return NextResponse.json(
+            { success: false, error: '缺少或无效的 network 参数，应为链 ID' },
+            { status: 400 }
+          );
+        }
+        if (isNaN(limit) || limit < 1 || limit > 1000 || isNaN(offset) || offset < 0) {
+          return NextResponse.json(
+            { success: false, error: 'limit 必须在 1-1000 之间，offset 不能为负数' },
+            { status: 400 }
+          );
+        }
+        const distribution = await getTokenHolderDistribution({ network, tokenAddress: address, limit, offset });
+        return NextResponse.json({ success: true, data: distribution });
+      }
+
       case 'search':
         if (!search) {
           return NextResponse.json(
@@ -71,7 +108,13 @@ export async function GET(request: NextRequest) {
 
       default:
         // 获取所有代币列表
-        const allTokens = await getAllMemeTokens(limit, offset, orderBy, orderDirection);
+        const allTokens = await getAllMemeTokens(
+          limit,
+          offset,
+          orderBy,
+          orderDirection,
+          (lifecycle as MemeTokenLifecycleStatus) || undefined
+        );
         return NextResponse.json({ success: true, data: allTokens });
     }
   } catch (error) {
@@ -83,31 +126,17 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST - 创建新的 Meme 代币
+// POST - 补充 Meme 代币的链下元数据
+// 代币本身由服务端监听 TokenFactory 的 MemeDeployed 事件并读取链上数据登记，这里只填充上传的图标等链下字段
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const {
-      address,
-      symbol,
-      name,
-      decimals,
-      total_supply,
-      price_usd,
-      market_cap,
-      volume_24h,
-      description,
-      logo_uri,
-      twitterAddress,
-      telegramAddress,
-      websiteAddress,
-      is_verified
-    } = body as CreateMemeTokenData;
+    const { address, logo_uri } = body as CreateMemeTokenData;
 
     // 验证必需字段
-    if (!address || !symbol || !name) {
+    if (!address) {
       return NextResponse.json(
-        { success: false, error: '缺少必需字段: address, symbol, name' },
+        { success: false, error: '缺少必需字段: address' },
         { status: 400 }
       );
     }
@@ -120,49 +149,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 检查代币是否已存在
-    const exists = await memeTokenExists(address);
-    if (exists) {
+    const found = await updateMemeTokenOffchainMetadata(address, { logo_uri });
+
+    // 链上事件尚未达到确认数，代币稍后由服务端登记
+    if (!found) {
       return NextResponse.json(
-        { success: false, error: '该地址的代币已存在' },
-        { status: 409 }
+        {
+          success: true,
+          message: '代币尚未在链上确认，确认后将由服务端自动登记',
+          data: null
+        },
+        { status: 202 }
       );
     }
 
-    // 创建代币数据
-    const tokenData: CreateMemeTokenData = {
-      address,
-      symbol,
-      name,
-      decimals: decimals || 18,
-      total_supply: total_supply || '0',
-      price_usd: price_usd || 0,
-      market_cap: market_cap || 0,
-      volume_24h: volume_24h || 0,
-      description,
-      logo_uri,
-      twitterAddress,
-      telegramAddress,
-      websiteAddress,
-      is_verified: is_verified || false
-    };
-
-    // 插入到数据库
-    await insertMemeToken(tokenData);
-
-    // 返回创建的代币信息
-    const createdToken = await getMemeTokenByAddress(address);
+    // 返回代币信息
+    const token = await getMemeTokenByAddress(address);
     
     return NextResponse.json(
       { 
         success: true, 
-        message: 'Meme 代币创建成功',
-        data: createdToken 
-      },
-      { status: 201 }
+        message: 'Meme 代币元数据更新成功',
+        data: token 
+      }
     );
   } catch (error) {
-    console.error('创建 Meme 代币失败:', error);
+    console.error('更新 Meme 代币元数据失败:', error);
     return NextResponse.json(
       { success: false, error: '服务器内部错误' },
       { status: 500 }
@@ -60,15 +60,29 @@ const TABLE_SCHEMAS = {
       name TEXT NOT NULL,
       decimals INTEGER NOT NULL DEFAULT 18,
       total_supply TEXT NOT NULL DEFAULT '0',
+      price_eth REAL DEFAULT 0,
       price_usd REAL DEFAULT 0,
       market_cap REAL DEFAULT 0,
       volume_24h REAL DEFAULT 0,
+      volume_24h_eth REAL DEFAULT 0,
+      trade_count_24h INTEGER DEFAULT 0,
+      buy_count_24h INTEGER DEFAULT 0,
+      sell_count_24h INTEGER DEFAULT 0,
+      circulating_supply TEXT DEFAULT '0',
+      circulating_market_cap REAL DEFAULT 0,
       description TEXT,
       logo_uri TEXT,
       twitterAddress TEXT,
       telegramAddress TEXT,
       websiteAddress TEXT,
       is_verified BOOLEAN DEFAULT 0,
+      lifecycle_status TEXT NOT NULL DEFAULT 'created',
+      pool_created_at DATETIME,
+      pool_created_tx TEXT,
+      trading_started_at DATETIME,
+      trading_started_tx TEXT,
+      graduated_at DATETIME,
+      graduated_tx TEXT,
       created_at DATETIME DEFAULT (datetime('now', 'localtime')),
       updated_at DATETIME DEFAULT (datetime('now', 'localtime'))
     )
@@ -77,7 +91,9 @@ const TABLE_SCHEMAS = {
   transactions: `
     CREATE TABLE IF NOT EXISTS transactions (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
-      tx_hash TEXT UNIQUE NOT NULL,
+      tx_hash TEXT NOT NULL,
+      log_index INTEGER,
+      network TEXT,
       block_number INTEGER NOT NULL,
       pair_address TEXT NOT NULL,
       user_address TEXT NOT NULL,
@@ -88,10 +104,13 @@ const TABLE_SCHEMAS = {
       amount1_out TEXT DEFAULT '0',
       liquidity_change TEXT DEFAULT '0',
       fee_amount TEXT DEFAULT '0',
+      fee0_amount TEXT DEFAULT '0',
+      fee1_amount TEXT DEFAULT '0',
       gas_used INTEGER,
       gas_price TEXT,
       status TEXT DEFAULT 'PENDING',
       timestamp DATETIME DEFAULT (datetime('now', 'localtime')),
+      UNIQUE(tx_hash, log_index),
       FOREIGN KEY (pair_address) REFERENCES trading_pairs(pair_address)
     )
   `,
@@ -131,8 +150,13 @@ const TABLE_SCHEMAS = {
       token_address TEXT,
       isBuy BOOLEAN DEFAULT 1,
       price TEXT NOT NULL DEFAULT '0',
+      price_usd TEXT,
+      block_number INTEGER,
+      block_hash TEXT,
+      log_index INTEGER,
       timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(network, tx_hash, log_index)
     )
   `,
   klines: `
@@ -147,9 +171,116 @@ const TABLE_SCHEMAS = {
       low TEXT NOT NULL DEFAULT '0',
       close TEXT NOT NULL DEFAULT '0',
       volume TEXT NOT NULL DEFAULT '0',
+      quote_volume TEXT NOT NULL DEFAULT '0',
+      buy_volume TEXT NOT NULL DEFAULT '0',
+      sell_volume TEXT NOT NULL DEFAULT '0',
+      trade_count INTEGER NOT NULL DEFAULT 0,
+      unique_traders INTEGER NOT NULL DEFAULT 0,
+      is_complete INTEGER NOT NULL DEFAULT 1,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       UNIQUE(network, pair_address, interval_type, timestamp)
     )
+  `,
+  kline_trades: `
+    CREATE TABLE IF NOT EXISTS kline_trades (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      network TEXT NOT NULL,
+      pair_address TEXT NOT NULL,
+      interval_type TEXT NOT NULL,
+      kline_timestamp DATETIME NOT NULL,
+      tx_hash TEXT NOT NULL,
+      log_index INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(network, interval_type, tx_hash, log_index)
+    )
+  `,
+  farm_events: `
+    CREATE TABLE IF NOT EXISTS farm_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      network TEXT NOT NULL,
+      tx_hash TEXT NOT NULL,
+      log_index INTEGER NOT NULL,
+      block_number INTEGER NOT NULL,
+      block_hash TEXT,
+      user_address TEXT NOT NULL,
+      pid INTEGER NOT NULL,
+      event_type TEXT NOT NULL,
+      amount TEXT NOT NULL DEFAULT '0',
+      timestamp DATETIME NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(network, tx_hash, log_index)
+    )
+  `,
+  farm_stakes: `
+    CREATE TABLE IF NOT EXISTS farm_stakes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      network TEXT NOT NULL,
+      pid INTEGER NOT NULL,
+      user_address TEXT NOT NULL,
+      staked_amount TEXT NOT NULL DEFAULT '0',
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(network, pid, user_address)
+    )
+  `,
+  token_transfers: `
+    CREATE TABLE IF NOT EXISTS token_transfers (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      network TEXT NOT NULL,
+      tx_hash TEXT NOT NULL,
+      log_index INTEGER NOT NULL,
+      block_number INTEGER NOT NULL,
+      block_hash TEXT,
+      token_address TEXT NOT NULL,
+      from_address TEXT NOT NULL,
+      to_address TEXT NOT NULL,
+      value TEXT NOT NULL DEFAULT '0',
+      timestamp DATETIME NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(network, tx_hash, log_index)
+    )
+  `,
+  token_holders: `
+    CREATE TABLE IF NOT EXISTS token_holders (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      network TEXT NOT NULL,
+      token_address TEXT NOT NULL,
+      holder_address TEXT NOT NULL,
+      balance TEXT NOT NULL DEFAULT '0',
+      label TEXT,
+      updated_block INTEGER,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(network, token_address, holder_address)
+    )
+  `,
+  trade_dead_letters: `
+    CREATE TABLE IF NOT EXISTS trade_dead_letters (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      network TEXT NOT NULL,
+      tx_hash TEXT NOT NULL,
+      log_index INTEGER NOT NULL,
+      block_number INTEGER,
+      pool_address TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      error TEXT,
+      attempts INTEGER NOT NULL DEFAULT 1,
+      status TEXT NOT NULL DEFAULT 'pending',
+      next_retry_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      resolved_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(network, tx_hash, log_index)
+    )
+  `,
+  listener_cursors: `
+    CREATE TABLE IF NOT EXISTS listener_cursors (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      network TEXT NOT NULL,
+      listener TEXT NOT NULL,
+      last_block INTEGER NOT NULL DEFAULT 0,
+      block_hash TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(network, listener)
+    )
   `
 };
 
@@ -166,19 +297,70 @@ const INDEXES = [
   "CREATE INDEX IF NOT EXISTS idx_transactions_pair ON transactions(pair_address)",
   "CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(transaction_type)",
   "CREATE INDEX IF NOT EXISTS idx_transactions_timestamp ON transactions(timestamp)",
+  "CREATE INDEX IF NOT EXISTS idx_transactions_network_block ON transactions(network, block_number)",
   "CREATE INDEX IF NOT EXISTS idx_user_positions_user ON user_positions(user_address)",
   "CREATE INDEX IF NOT EXISTS idx_user_positions_pair ON user_positions(pair_address)",
   "CREATE INDEX IF NOT EXISTS idx_price_history_pair ON price_history(pair_address)",
   "CREATE INDEX IF NOT EXISTS idx_price_history_timestamp ON price_history(timestamp)",
+  "CREATE INDEX IF NOT EXISTS idx_meme_tokens_lifecycle ON meme_tokens(lifecycle_status)",
   "CREATE INDEX IF NOT EXISTS idx_trade_events_network ON trade_events(network)",
   "CREATE INDEX IF NOT EXISTS idx_trade_events_tx_hash ON trade_events(tx_hash)",
   "CREATE INDEX IF NOT EXISTS idx_trade_events_user ON trade_events(user_address)",
   "CREATE INDEX IF NOT EXISTS idx_trade_events_token ON trade_events(token_address)",
   "CREATE INDEX IF NOT EXISTS idx_trade_events_timestamp ON trade_events(timestamp)",
+  "CREATE INDEX IF NOT EXISTS idx_trade_events_network_block ON trade_events(network, block_number)",
+  "CREATE INDEX IF NOT EXISTS idx_trade_events_token_timestamp ON trade_events(token_address, timestamp)",
+  "CREATE INDEX IF NOT EXISTS idx_farm_events_pool ON farm_events(network, pid, block_number)",
+  "CREATE INDEX IF NOT EXISTS idx_farm_events_user ON farm_events(network, user_address)",
+  "CREATE INDEX IF NOT EXISTS idx_farm_stakes_pool ON farm_stakes(network, pid)",
+  "CREATE INDEX IF NOT EXISTS idx_token_transfers_block ON token_transfers(network, block_number)",
+  "CREATE INDEX IF NOT EXISTS idx_token_transfers_token ON token_transfers(network, token_address)",
+  "CREATE INDEX IF NOT EXISTS idx_token_holders_token ON token_holders(network, token_address)",
+  "CREATE INDEX IF NOT EXISTS idx_trade_dead_letters_retry ON trade_dead_letters(network, status, next_retry_at)",
   "CREATE INDEX IF NOT EXISTS idx_klines_network_pair ON klines(network, pair_address)",
   "CREATE INDEX IF NOT EXISTS idx_klines_interval ON klines(interval_type)",
   "CREATE INDEX IF NOT EXISTS idx_klines_timestamp ON klines(timestamp)",
   "CREATE INDEX IF NOT EXISTS idx_klines_network_pair_interval ON klines(network, pair_address, interval_type)",
+  "CREATE INDEX IF NOT EXISTS idx_klines_incomplete ON klines(is_complete) WHERE is_complete = 0",
+  "CREATE INDEX IF NOT EXISTS idx_kline_trades_kline ON kline_trades(network, pair_address, interval_type, kline_timestamp)",
+];
+
+// 已有数据库需要补齐的列（新建数据库的表结构中已包含这些列）
+const COLUMN_MIGRATIONS: { table: string; column: string; definition: string }[] = [
+  { table: "trade_events", column: "block_number", definition: "INTEGER" },
+  { table: "trade_events", column: "block_hash", definition: "TEXT" },
+  { table: "trade_events", column: "log_index", definition: "INTEGER" },
+  { table: "listener_cursors", column: "block_hash", definition: "TEXT" },
+  { table: "meme_tokens", column: "lifecycle_status", definition: "TEXT NOT NULL DEFAULT 'created'" },
+  { table: "meme_tokens", column: "pool_created_at", definition: "DATETIME" },
+  { table: "meme_tokens", column: "pool_created_tx", definition: "TEXT" },
+  { table: "meme_tokens", column: "trading_started_at", definition: "DATETIME" },
+  { table: "meme_tokens", column: "trading_started_tx", definition: "TEXT" },
+  { table: "meme_tokens", column: "graduated_at", definition: "DATETIME" },
+  { table: "meme_tokens", column: "graduated_tx", definition: "TEXT" },
+  { table: "transactions", column: "network", definition: "TEXT" },
+  { table: "meme_tokens", column: "volume_24h_eth", definition: "REAL DEFAULT 0" },
+  { table: "meme_tokens", column: "trade_count_24h", definition: "INTEGER DEFAULT 0" },
+  { table: "meme_tokens", column: "buy_count_24h", definition: "INTEGER DEFAULT 0" },
+  { table: "meme_tokens", column: "sell_count_24h", definition: "INTEGER DEFAULT 0" },
+  { table: "meme_tokens", column: "circulating_supply", definition: "TEXT DEFAULT '0'" },
+  { table: "meme_tokens", column: "circulating_market_cap", definition: "REAL DEFAULT 0" },
+  { table: "meme_tokens", column: "price_eth", definition: "REAL DEFAULT 0" },
+  { table: "trade_events", column: "price_usd", definition: "TEXT" },
+  { table: "klines", column: "is_complete", definition: "INTEGER NOT NULL DEFAULT 1" },
+  { table: "klines", column: "quote_volume", definition: "TEXT NOT NULL DEFAULT '0'" },
+  { table: "klines", column: "buy_volume", definition: "TEXT NOT NULL DEFAULT '0'" },
+  { table: "klines", column: "sell_volume", definition: "TEXT NOT NULL DEFAULT '0'" },
+  { table: "klines", column: "trade_count", definition: "INTEGER NOT NULL DEFAULT 0" },
+  { table: "klines", column: "unique_traders", definition: "INTEGER NOT NULL DEFAULT 0" },
+];
+
+// 唯一键发生变化、无法通过 ALTER TABLE 调整的表：旧表结构满足条件时按最新结构重建并迁移数据
+const TABLE_REBUILDS: { table: keyof typeof TABLE_SCHEMAS; needsRebuild: (createSql: string) => boolean }[] = [
+  // 同一笔交易可能包含多个交易对事件（多跳兑换），唯一键从 tx_hash 改为 (tx_hash, log_index)
+  { table: "transactions", needsRebuild: (createSql) => !createSql.includes("UNIQUE(tx_hash, log_index)") },
+  // 同一笔交易可能包含多个 Trade 事件，按 (network, tx_hash, log_index) 去重，重连或重放时不重复入库
+  { table: "trade_events", needsRebuild: (createSql) => !createSql.includes("UNIQUE(network, tx_hash, log_index)") },
 ];
 
 /**
@@ -219,6 +401,8 @@ export async function initializeDatabase(): Promise<void> {
       await createAllTables();
       console.log("Database initialized with all tables created");
     } else {
+      // 数据库已存在，补齐后续版本新增的表和索引
+      await createMissingTables();
       console.log("Database connected successfully");
     }
   } catch (error) {
@@ -259,6 +443,75 @@ async function createAllTables(): Promise<void> {
   }
 }
 
+/**
+ * 按最新表结构重建表，保留新旧结构共有列的数据
+ * 违反新唯一键的重复行只保留最早写入的一条
+ * 旧表上的索引随旧表一起删除，由调用方重新创建
+ */
+async function rebuildTable(table: keyof typeof TABLE_SCHEMAS): Promise<void> {
+  if (!db) throw new Error("Database not initialized");
+
+  const legacyTable = `${table}_legacy`;
+  await db.exec("BEGIN TRANSACTION");
+  try {
+    await db.exec(`ALTER TABLE ${table} RENAME TO ${legacyTable}`);
+    await db.exec(TABLE_SCHEMAS[table]);
+
+    const legacyColumns = (await db.all(`PRAGMA table_info(${legacyTable})`)) as { name: string }[];
+    const columns = (await db.all(`PRAGMA table_info(${table})`)) as { name: string }[];
+    const sharedColumns = columns
+      .map((column) => column.name)
+      .filter((name) => legacyColumns.some((legacy) => legacy.name === name))
+      .join(", ");
+
+    await db.exec(`INSERT OR IGNORE INTO ${table} (${sharedColumns}) SELECT ${sharedColumns} FROM ${legacyTable} ORDER BY rowid`);
+    await db.exec(`DROP TABLE ${legacyTable}`);
+    await db.exec("COMMIT");
+  } catch (error) {
+    await db.exec("ROLLBACK");
+    throw error;
+  }
+}
+
+/**
+ * 补齐已有数据库中缺失的表、列和索引
+ */
+async function createMissingTables(): Promise<void> {
+  if (!db) throw new Error("Database not initialized");
+
+  try {
+    for (const schema of Object.values(TABLE_SCHEMAS)) {
+      await db.exec(schema);
+    }
+
+    for (const { table, column, definition } of COLUMN_MIGRATIONS) {
+      const columns = (await db.all(`PRAGMA table_info(${table})`)) as { name: string }[];
+      if (!columns.some((existing) => existing.name === column)) {
+        await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        console.log(`Column ${table}.${column} added`);
+      }
+    }
+
+    for (const { table, needsRebuild } of TABLE_REBUILDS) {
+      const existing = (await db.get(
+        "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?",
+        [table]
+      )) as { sql: string } | undefined;
+      if (existing && needsRebuild(existing.sql)) {
+        await rebuildTable(table);
+        console.log(`Table ${table} rebuilt`);
+      }
+    }
+
+    for (const index of INDEXES) {
+      await db.exec(index);
+    }
+  } catch (error) {
+    console.error("Failed to create missing tables:", error);
+    throw error;
+  }
+}
+
 /**
  * 插入初始代币数据
  */
@@ -580,6 +833,8 @@ export interface TradingPairWithTokens extends TradingPair {
   token1_symbol: string;
   token1_name: string;
   token1_decimals: number;
+  token0_price_usd?: number;
+  token1_price_usd?: number;
 }
 
 export interface Token {
@@ -605,6 +860,8 @@ export interface Token {
 export interface Transaction {
   id: number;
   tx_hash: string;
+  log_index?: number;
+  network?: string;
   block_number: number;
   pair_address: string;
   user_address: string;
@@ -615,6 +872,8 @@ export interface Transaction {
   amount1_out: string;
   liquidity_change: string;
   fee_amount: string;
+  fee0_amount: string;
+  fee1_amount: string;
   gas_used?: number;
   gas_price?: string;
   status: string;
@@ -0,0 +1,184 @@
+import { getDatabase } from './db-core';
+
+// 死信状态：pending 等待重试，resolved 重试成功，exhausted 超过最大重试次数，需要手动重新投递
+export type TradeDeadLetterStatus = 'pending' | 'resolved' | 'exhausted';
+
+// TradeDeadLetter 接口定义：处理失败的 Trade 事件，payload 为待入库的交易事件 JSON
+export interface TradeDeadLetter {
+  id: number;
+  network: string;
+  tx_hash: string;
+  log_index: number;
+  block_number: number | null;
+  pool_address: string;
+  payload: string;
+  error: string | null;
+  attempts: number;
+  status: TradeDeadLetterStatus;
+  next_retry_at: string;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// 记录处理失败的交易事件；同一事件再次失败时覆盖内容并重新进入待重试状态
+export async function recordTradeDeadLetter(deadLetter: {
+  network: string;
+  tx_hash: string;
+  log_index: number;
+  block_number?: number;
+  pool_address: string;
+  payload: string;
+  error: string;
+  retryDelaySeconds: number;
+}): Promise<void> {
+  const db = await getDatabase();
+  await db.run(
+    `INSERT INTO trade_dead_letters (
+      network, tx_hash, log_index, block_number, pool_address, payload, error, next_retry_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now', ?))
+    ON CONFLICT(network, tx_hash, log_index) DO UPDATE SET
+      block_number = excluded.block_number,
+      pool_address = excluded.pool_address,
+      payload = excluded.payload,
+      error = excluded.error,
+      attempts = trade_dead_letters.attempts + 1,
+      status = 'pending',
+      next_retry_at = excluded.next_retry_at,
+      resolved_at = NULL,
+      updated_at = CURRENT_TIMESTAMP`,
+    [
+      deadLetter.network,
+      deadLetter.tx_hash,
+      deadLetter.log_index,
+      deadLetter.block_number ?? null,
+      deadLetter.pool_address,
+      deadLetter.payload,
+      deadLetter.error,
+      `+${deadLetter.retryDelaySeconds} seconds`
+    ]
+  );
+}
+
+// 获取到达重试时间的死信，按链上顺序返回
+export async function getDueTradeDeadLetters(network: string, limit: number): Promise<TradeDeadLetter[]> {
+  const db = await getDatabase();
+  return await db.all(
+    `SELECT * FROM trade_dead_letters
+     WHERE network = ? AND status = 'pending' AND next_retry_at <= CURRENT_TIMESTAMP
+     ORDER BY block_number ASC, log_index ASC
+     LIMIT ?`,
+    [network, limit]
+  ) as TradeDeadLetter[];
+}
+
+// 标记重试成功
+export async function markTradeDeadLetterResolved(id: number): Promise<void> {
+  const db = await getDatabase();
+  await db.run(
+    `UPDATE trade_dead_letters
+     SET status = 'resolved', resolved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?`,
+    [id]
+  );
+}
+
+// 记录一次失败的重试；retryDelaySeconds 为 null 时表示已用尽重试次数
+export async function markTradeDeadLetterFailed(id: number, error: string, retryDelaySeconds: number | null): Promise<void> {
+  const db = await getDatabase();
+  if (retryDelaySeconds === null) {
+    await db.run(
+      `UPDATE trade_dead_letters
+       SET attempts = attempts + 1, error = ?, status = 'exhausted', updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [error, id]
+    );
+    return;
+  }
+
+  await db.run(
+    `UPDATE trade_dead_letters
+     SET attempts = attempts + 1, error = ?, next_retry_at = datetime('now', ?), updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?`,
+    [error, `+${retryDelaySeconds} seconds`, id]
+  );
+}
+
+// 分页查询死信，可按网络和状态筛选，按创建时间倒序
+export async function getTradeDeadLetters(options: {
+  network?: string;
+  status?: TradeDeadLetterStatus;
+  limit?: number;
+  offset?: number;
+}): Promise<{ items: TradeDeadLetter[]; total: number }> {
+  const { network, status, limit = 50, offset = 0 } = options;
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (network) {
+    conditions.push('network = ?');
+    params.push(network);
+  }
+  if (status) {
+    conditions.push('status = ?');
+    params.push(status);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const db = await getDatabase();
+  const items = await db.all(
+    `SELECT * FROM trade_dead_letters ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+    [...params, limit, offset]
+  ) as TradeDeadLetter[];
+  const countRow = await db.get(
+    `SELECT COUNT(*) as total FROM trade_dead_letters ${where}`,
+    params
+  ) as { total: number };
+
+  return { items, total: countRow.total };
+}
+
+/**
+ * 重新投递死信：把未成功的死信设为立即重试，由监听器的重试任务处理
+ * 传入 ids 时只处理这些记录，否则按 network/status 筛选；已成功的记录不受影响
+ */
+export async function redriveTradeDeadLetters(options: {
+  ids?: number[];
+  network?: string;
+  status?: Exclude<TradeDeadLetterStatus, 'resolved'>;
+}): Promise<number> {
+  const conditions = ["status != 'resolved'"];
+  const params: unknown[] = [];
+
+  if (options.ids && options.ids.length > 0) {
+    conditions.push(`id IN (${options.ids.map(() => '?').join(', ')})`);
+    params.push(...options.ids);
+  }
+  if (options.network) {
+    conditions.push('network = ?');
+    params.push(options.network);
+  }
+  if (options.status) {
+    conditions.push('status = ?');
+    params.push(options.status);
+  }
+
+  const db = await getDatabase();
+  const result = await db.run(
+    `UPDATE trade_dead_letters
+     SET status = 'pending', next_retry_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+     WHERE ${conditions.join(' AND ')}`,
+    params
+  );
+  return result.changes || 0;
+}
+
+// 删除指定区块及之后的死信（链重组回滚时使用，孤块中的事件不再重试）
+export async function deleteTradeDeadLettersFromBlock(network: string, fromBlock: number): Promise<number> {
+  const db = await getDatabase();
+  const result = await db.run(
+    'DELETE FROM trade_dead_letters WHERE network = ? AND block_number >= ?',
+    [network, fromBlock]
+  );
+  return result.changes || 0;
+}
@@ -0,0 +1,248 @@
+import { getDatabase } from './db-core';
+
+// 农场事件类型
+export type FarmEventType = 'DEPOSIT' | 'WITHDRAW' | 'EMERGENCY_WITHDRAW';
+
+// FarmEvent 接口定义（地址统一保存为小写）
+export interface FarmEvent {
+  id: number;
+  network: string;
+  tx_hash: string;
+  log_index: number;
+  block_number: number;
+  block_hash?: string;
+  user_address: string;
+  pid: number;
+  event_type: FarmEventType;
+  amount: string;
+  timestamp: string;
+  created_at: string;
+}
+
+// FarmStake 接口定义：用户在某个池子当前的质押数量
+export interface FarmStake {
+  id: number;
+  network: string;
+  pid: number;
+  user_address: string;
+  staked_amount: string;
+  updated_at: string;
+}
+
+// 质押历史中的一条记录：事件发生后的质押数量
+export interface FarmStakeHistoryItem {
+  tx_hash: string;
+  block_number: number;
+  timestamp: string;
+  user_address: string;
+  event_type: FarmEventType;
+  amount: string;
+  staked_amount: string;
+}
+
+// 计算事件发生后的质押数量：紧急提取清空质押，结果不小于 0
+function applyStakeEvent(stakedAmount: bigint, eventType: FarmEventType, amount: string): bigint {
+  if (eventType === 'EMERGENCY_WITHDRAW') {
+    return BigInt(0);
+  }
+
+  const next = eventType === 'DEPOSIT' ? stakedAmount + BigInt(amount) : stakedAmount - BigInt(amount);
+  return next < BigInt(0) ? BigInt(0) : next;
+}
+
+// 插入农场事件（按 network + tx_hash + log_index 去重），返回是否为新事件
+export async function insertFarmEvent(farmEvent: Omit<FarmEvent, 'id' | 'created_at'>): Promise<boolean> {
+  const db = await getDatabase();
+  const result = await db.run(
+    `INSERT OR IGNORE INTO farm_events (
+      network, tx_hash, log_index, block_number, block_hash,
+      user_address, pid, event_type, amount, timestamp
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      farmEvent.network,
+      farmEvent.tx_hash,
+      farmEvent.log_index,
+      farmEvent.block_number,
+      farmEvent.block_hash,
+      farmEvent.user_address.toLowerCase(),
+      farmEvent.pid,
+      farmEvent.event_type,
+      farmEvent.amount,
+      farmEvent.timestamp
+    ]
+  );
+  return (result.changes || 0) > 0;
+}
+
+// 按事件更新用户在池子中的质押数量
+export async function applyFarmStakeChange(
+  network: string,
+  pid: number,
+  userAddress: string,
+  eventType: FarmEventType,
+  amount: string
+): Promise<void> {
+  const db = await getDatabase();
+  const user = userAddress.toLowerCase();
+  const row = await db.get(
+    'SELECT staked_amount FROM farm_stakes WHERE network = ? AND pid = ? AND user_address = ?',
+    [network, pid, user]
+  ) as { staked_amount: string } | undefined;
+
+  const stakedAmount = applyStakeEvent(BigInt(row?.staked_amount || '0'), eventType, amount);
+  await upsertFarmStake(network, pid, user, stakedAmount.toString());
+}
+
+// 写入用户在池子中的质押数量
+async function upsertFarmStake(network: string, pid: number, userAddress: string, stakedAmount: string): Promise<void> {
+  const db = await getDatabase();
+  await db.run(
+    `INSERT INTO farm_stakes (network, pid, user_address, staked_amount, updated_at)
+     VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(network, pid, user_address)
+     DO UPDATE SET
+       staked_amount = excluded.staked_amount,
+       updated_at = CURRENT_TIMESTAMP`,
+    [network, pid, userAddress, stakedAmount]
+  );
+}
+
+// 删除指定区块及之后的农场事件（链重组回滚），返回被删除的事件
+export async function deleteFarmEventsFromBlock(network: string, fromBlock: number): Promise<FarmEvent[]> {
+  const db = await getDatabase();
+  const rows = await db.all(
+    'SELECT * FROM farm_events WHERE network = ? AND block_number >= ?',
+    [network, fromBlock]
+  ) as FarmEvent[];
+
+  await db.run(
+    'DELETE FROM farm_events WHERE network = ? AND block_number >= ?',
+    [network, fromBlock]
+  );
+
+  return rows;
+}
+
+// 根据剩余事件重新计算用户在池子中的质押数量
+export async function recomputeFarmStake(network: string, pid: number, userAddress: string): Promise<void> {
+  const history = await getFarmStakeHistory({ network, pid, userAddress });
+  const stakedAmount = history.length > 0 ? history[history.length - 1].staked_amount : '0';
+  await upsertFarmStake(network, pid, userAddress.toLowerCase(), stakedAmount);
+}
+
+// 查询农场事件时间线
+export async function getFarmEvents(options: {
+  network: string;
+  pid?: number;
+  userAddress?: string;
+  eventType?: FarmEventType;
+  limit?: number;
+  offset?: number;
+  orderDirection?: 'ASC' | 'DESC';
+}): Promise<FarmEvent[]> {
+  const db = await getDatabase();
+
+  let sql = 'SELECT * FROM farm_events WHERE network = ?';
+  const params: unknown[] = [options.network];
+
+  if (options.pid !== undefined) {
+    sql += ' AND pid = ?';
+    params.push(options.pid);
+  }
+
+  if (options.userAddress) {
+    sql += ' AND user_address = ?';
+    params.push(options.userAddress.toLowerCase());
+  }
+
+  if (options.eventType) {
+    sql += ' AND event_type = ?';
+    params.push(options.eventType);
+  }
+
+  const orderDirection = options.orderDirection || 'DESC';
+  sql += ` ORDER BY block_number ${orderDirection}, log_index ${orderDirection}`;
+
+  if (options.limit) {
+    sql += ' LIMIT ?';
+    params.push(options.limit);
+
+    if (options.offset) {
+      sql += ' OFFSET ?';
+      params.push(options.offset);
+    }
+  }
+
+  return await db.all(sql, params) as FarmEvent[];
+}
+
+// 查询质押数量随时间的变化：指定用户时为该用户的质押，否则为整个池子的总质押
+export async function getFarmStakeHistory(options: {
+  network: string;
+  pid: number;
+  userAddress?: string;
+}): Promise<FarmStakeHistoryItem[]> {
+  const events = await getFarmEvents({ ...options, orderDirection: 'ASC' });
+
+  // 按用户分别累计，紧急提取只清空该用户自己的质押
+  const userStakes = new Map<string, bigint>();
+  let totalStaked = BigInt(0);
+
+  return events.map((event) => {
+    const previous = userStakes.get(event.user_address) || BigInt(0);
+    const current = applyStakeEvent(previous, event.event_type, event.amount);
+    userStakes.set(event.user_address, current);
+    totalStaked += current - previous;
+
+    return {
+      tx_hash: event.tx_hash,
+      block_number: event.block_number,
+      timestamp: event.timestamp,
+      user_address: event.user_address,
+      event_type: event.event_type,
+      amount: event.amount,
+      staked_amount: (options.userAddress ? current : totalStaked).toString()
+    };
+  });
+}
+
+// 查询用户在各池子当前的质押数量
+export async function getUserFarmStakes(network: string, userAddress: string): Promise<FarmStake[]> {
+  const db = await getDatabase();
+  return await db.all(
+    `SELECT * FROM farm_stakes
+     WHERE network = ? AND user_address = ? AND staked_amount != '0'
+     ORDER BY pid ASC`,
+    [network, userAddress.toLowerCase()]
+  ) as FarmStake[];
+}
+
+// 统计各池子的质押人数和总质押数量
+export async function getFarmPoolStakers(network: string): Promise<{
+  pid: number;
+  stakers: number;
+  total_staked: string;
+}[]> {
+  const db = await getDatabase();
+  const rows = await db.all(
+    `SELECT pid, staked_amount FROM farm_stakes
+     WHERE network = ? AND staked_amount != '0'
+     ORDER BY pid ASC`,
+    [network]
+  ) as { pid: number; staked_amount: string }[];
+
+  // 质押数量是大整数字符串，在 JS 中用 BigInt 求和避免精度丢失
+  const pools = new Map<number, { stakers: number; totalStaked: bigint }>();
+  for (const row of rows) {
+    const pool = pools.get(row.pid) || { stakers: 0, totalStaked: BigInt(0) };
+    pool.stakers += 1;
+    pool.totalStaked += BigInt(row.staked_amount);
+    pools.set(row.pid, pool);
+  }
+
+  return Array.from(pools.entries()).map(([pid, pool]) => ({
+    pid,
+    stakers: pool.stakers,
+    total_staked: pool.totalStaked.toString()
+  }));
+}
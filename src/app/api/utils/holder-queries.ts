@@ -0,0 +1,243 @@
+import { getDatabase } from './db-core';
+
+// 持有人地址标签：Pool 合约（联合曲线）或交易对合约
+export type TokenHolderLabel = 'pool' | 'pair';
+
+// TokenTransfer 接口定义：MemeToken 的 Transfer 事件（地址统一保存为小写）
+export interface TokenTransfer {
+  id: number;
+  network: string;
+  tx_hash: string;
+  log_index: number;
+  block_number: number;
+  block_hash?: string;
+  token_address: string;
+  from_address: string;
+  to_address: string;
+  value: string;
+  timestamp: string;
+  created_at: string;
+}
+
+// TokenHolder 接口定义：地址当前持有的代币数量（原始整数字符串）
+export interface TokenHolder {
+  id: number;
+  network: string;
+  token_address: string;
+  holder_address: string;
+  balance: string;
+  label: TokenHolderLabel | null;
+  updated_block: number | null;
+  updated_at: string;
+}
+
+// 代币持有人分布
+export interface TokenHolderDistribution {
+  holders: TokenHolder[];
+  holder_count: number;
+  total_supply: string;
+  top10_balance: string;
+  // 前10大持有人占总供应量的比例（0-1）
+  top10_share: number;
+  // 排除 Pool 和交易对合约后，前10大持有人占其余流通量的比例（0-1）
+  top10_share_excluding_contracts: number;
+}
+
+// 记录 Transfer 事件，返回是否为新记录（重复事件返回 false）
+export async function insertTokenTransfer(transfer: Omit<TokenTransfer, 'id' | 'created_at'>): Promise<boolean> {
+  const db = await getDatabase();
+  const result = await db.run(
+    `INSERT OR IGNORE INTO token_transfers (
+      network, tx_hash, log_index, block_number, block_hash,
+      token_address, from_address, to_address, value, timestamp
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      transfer.network,
+      transfer.tx_hash,
+      transfer.log_index,
+      transfer.block_number,
+      transfer.block_hash,
+      transfer.token_address.toLowerCase(),
+      transfer.from_address.toLowerCase(),
+      transfer.to_address.toLowerCase(),
+      transfer.value,
+      transfer.timestamp
+    ]
+  );
+  return (result.changes || 0) > 0;
+}
+
+// 按变化量更新持有人余额，余额归零时删除该持有人
+export async function adjustTokenHolderBalance(
+  network: string,
+  tokenAddress: string,
+  holderAddress: string,
+  delta: bigint,
+  blockNumber: number,
+  label: TokenHolderLabel | null
+): Promise<void> {
+  const db = await getDatabase();
+  const token = tokenAddress.toLowerCase();
+  const holder = holderAddress.toLowerCase();
+  const row = await db.get(
+    'SELECT balance FROM token_holders WHERE network = ? AND token_address = ? AND holder_address = ?',
+    [network, token, holder]
+  ) as { balance: string } | undefined;
+
+  const balance = BigInt(row?.balance || '0') + delta;
+  await setTokenHolderBalance(network, token, holder, balance, blockNumber, label);
+}
+
+// 写入持有人余额
+async function setTokenHolderBalance(
+  network: string,
+  tokenAddress: string,
+  holderAddress: string,
+  balance: bigint,
+  blockNumber: number | null,
+  label: TokenHolderLabel | null
+): Promise<void> {
+  const db = await getDatabase();
+
+  if (balance <= BigInt(0)) {
+    await db.run(
+      'DELETE FROM token_holders WHERE network = ? AND token_address = ? AND holder_address = ?',
+      [network, tokenAddress, holderAddress]
+    );
+    return;
+  }
+
+  await db.run(
+    `INSERT INTO token_holders (network, token_address, holder_address, balance, label, updated_block, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(network, token_address, holder_address)
+     DO UPDATE SET
+       balance = excluded.balance,
+       label = COALESCE(excluded.label, token_holders.label),
+       updated_block = excluded.updated_block,
+       updated_at = CURRENT_TIMESTAMP`,
+    [network, tokenAddress, holderAddress, balance.toString(), label, blockNumber]
+  );
+}
+
+// 删除指定区块及之后的 Transfer 事件（链重组回滚），返回被删除的事件
+export async function deleteTokenTransfersFromBlock(network: string, fromBlock: number): Promise<TokenTransfer[]> {
+  const db = await getDatabase();
+  const rows = await db.all(
+    'SELECT * FROM token_transfers WHERE network = ? AND block_number >= ?',
+    [network, fromBlock]
+  ) as TokenTransfer[];
+
+  await db.run(
+    'DELETE FROM token_transfers WHERE network = ? AND block_number >= ?',
+    [network, fromBlock]
+  );
+
+  return rows;
+}
+
+// 根据剩余的 Transfer 事件重新计算持有人余额
+export async function recomputeTokenHolderBalance(
+  network: string,
+  tokenAddress: string,
+  holderAddress: string,
+  label: TokenHolderLabel | null
+): Promise<void> {
+  const db = await getDatabase();
+  const token = tokenAddress.toLowerCase();
+  const holder = holderAddress.toLowerCase();
+  const transfers = await db.all(
+    `SELECT from_address, to_address, value, block_number FROM token_transfers
+     WHERE network = ? AND token_address = ? AND (from_address = ? OR to_address = ?)
+     ORDER BY block_number ASC, log_index ASC`,
+    [network, token, holder, holder]
+  ) as Pick<TokenTransfer, 'from_address' | 'to_address' | 'value' | 'block_number'>[];
+
+  let balance = BigInt(0);
+  for (const transfer of transfers) {
+    if (transfer.to_address === holder) balance += BigInt(transfer.value);
+    if (transfer.from_address === holder) balance -= BigInt(transfer.value);
+  }
+
+  const lastBlock = transfers.length > 0 ? transfers[transfers.length - 1].block_number : null;
+  await setTokenHolderBalance(network, token, holder, balance, lastBlock, label);
+}
+
+// 查询代币的持有人分布：按余额排序的持有人、持有人数量和前10大持有人集中度
+export async function getTokenHolderDistribution(options: {
+  network: string;
+  tokenAddress: string;
+  limit?: number;
+  offset?: number;
+}): Promise<TokenHolderDistribution> {
+  const db = await getDatabase();
+  const token = options.tokenAddress.toLowerCase();
+
+  // 余额以整数字符串保存，按数值排序
+  const holders = await db.all(
+    `SELECT * FROM token_holders WHERE network = ? AND token_address = ?
+     ORDER BY CAST(balance AS REAL) DESC, holder_address ASC
+     LIMIT ? OFFSET ?`,
+    [options.network, token, options.limit || 50, options.offset || 0]
+  ) as TokenHolder[];
+
+  const countRow = await db.get(
+    'SELECT COUNT(*) as count FROM token_holders WHERE network = ? AND token_address = ?',
+    [options.network, token]
+  ) as { count: number };
+
+  const top10 = await db.all(
+    `SELECT balance FROM token_holders WHERE network = ? AND token_address = ?
+     ORDER BY CAST(balance AS REAL) DESC LIMIT 10`,
+    [options.network, token]
+  ) as { balance: string }[];
+
+  const top10ExcludingContracts = await db.all(
+    `SELECT balance FROM token_holders WHERE network = ? AND token_address = ? AND label IS NULL
+     ORDER BY CAST(balance AS REAL) DESC LIMIT 10`,
+    [options.network, token]
+  ) as { balance: string }[];
+
+  const contractBalances = await db.all(
+    'SELECT balance FROM token_holders WHERE network = ? AND token_address = ? AND label IS NOT NULL',
+    [options.network, token]
+  ) as { balance: string }[];
+
+  // 总供应量以代币登记的链上数据为准，未登记时按所有持有人余额之和计算
+  const tokenRow = await db.get(
+    'SELECT total_supply FROM meme_tokens WHERE address = ? COLLATE NOCASE',
+    [token]
+  ) as { total_supply: string } | undefined;
+
+  let totalSupply = BigInt(tokenRow?.total_supply || '0');
+  if (totalSupply <= BigInt(0)) {
+    const allBalances = await db.all(
+      'SELECT balance FROM token_holders WHERE network = ? AND token_address = ?',
+      [options.network, token]
+    ) as { balance: string }[];
+    totalSupply = sumBalances(allBalances);
+  }
+
+  const top10Balance = sumBalances(top10);
+  const circulatingSupply = totalSupply - sumBalances(contractBalances);
+
+  return {
+    holders,
+    holder_count: countRow.count,
+    total_supply: totalSupply.toString(),
+    top10_balance: top10Balance.toString(),
+    top10_share: toShare(top10Balance, totalSupply),
+    top10_share_excluding_contracts: toShare(sumBalances(top10ExcludingContracts), circulatingSupply)
+  };
+}
+
+// 累加余额
+function sumBalances(rows: { balance: string }[]): bigint {
+  return rows.reduce((sum, row) => sum + BigInt(row.balance), BigInt(0));
+}
+
+// 计算占比，保留6位小数
+function toShare(amount: bigint, total: bigint): number {
+  if (total <= BigInt(0)) return 0;
+  return Number((amount * BigInt(1000000)) / total) / 1000000;
+}
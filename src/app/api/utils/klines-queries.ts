@@ -1,4 +1,16 @@
 import { getDatabase } from './db-core';
+import { getTradersInTimeRange } from './trade-events-queries';
+import {
+  compareDecimals,
+  divideDecimals,
+  isValidDecimal,
+  maxDecimal,
+  minDecimal,
+  multiplyDecimals,
+  normalizeDecimal,
+  subtractDecimals,
+  sumDecimals
+} from '../../../lib/decimal';
 
 // Kline 接口定义
 export interface Kline {
@@ -11,12 +23,55 @@ export interface Kline {
   high: string;
   low: string;
   close: string;
-  volume: string;
+  volume: string; // 以代币计的成交量
+  quote_volume: string; // 以 ETH 计的成交额
+  buy_volume: string; // 买入成交量（以代币计）
+  sell_volume: string; // 卖出成交量（以代币计）
+  trade_count: number;
+  unique_traders: number; // 周期内参与交易的独立地址数
+  is_complete: number; // 0 为周期未结束的K线检查点，1 为已完成的K线
   created_at: string;
 }
 
+// K线的成交统计字段
+export type KlineTradeStats = Pick<Kline, 'quote_volume' | 'buy_volume' | 'sell_volume' | 'trade_count' | 'unique_traders'>;
+
+// 写入K线时的数据，成交统计缺省为 0，is_complete 缺省为已完成
+export type KlineInput = Omit<Kline, 'id' | 'created_at' | 'is_complete' | keyof KlineTradeStats>
+  & Partial<KlineTradeStats>
+  & { is_complete?: boolean };
+
+// 写入K线的字段及对应参数
+const KLINE_INSERT_COLUMNS = `network, pair_address, interval_type, timestamp,
+      open, high, low, close, volume, quote_volume, buy_volume, sell_volume,
+      trade_count, unique_traders, is_complete`;
+const KLINE_INSERT_PLACEHOLDERS = '?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?';
+
+function toKlineParams(kline: KlineInput): unknown[] {
+  return [
+    kline.network,
+    kline.pair_address,
+    kline.interval_type,
+    kline.timestamp,
+    kline.open,
+    kline.high,
+    kline.low,
+    kline.close,
+    kline.volume,
+    kline.quote_volume ?? '0',
+    kline.buy_volume ?? '0',
+    kline.sell_volume ?? '0',
+    kline.trade_count ?? 0,
+    kline.unique_traders ?? 0,
+    kline.is_complete === false ? 0 : 1
+  ];
+}
+
 // K线时间间隔类型
-export type KlineInterval = '30s' | '1m' | '15m' | '1h' | '4h' | '1d';
+export type KlineInterval = '30s' | '1m' | '15m' | '1h' | '4h' | '1d' | '1w';
+
+// 支持的K线时间间隔，从短到长
+export const KLINE_INTERVALS: KlineInterval[] = ['30s', '1m', '15m', '1h', '4h', '1d', '1w'];
 
 // 查询选项基础接口
 export interface BaseKlineQueryOptions {
@@ -32,11 +87,12 @@ export interface PaginatedKlineQueryOptions extends BaseKlineQueryOptions {
   limit?: number;
   offset?: number;
   orderDirection?: 'ASC' | 'DESC';
+  before?: string; // 只返回该时间之前（不含）的K线，用于按游标向前翻页
 }
 
 // 输入验证函数
-function validateKlineInterval(interval: string): interval is KlineInterval {
-  return ['30s', '1m', '15m', '1h', '4h', '1d'].includes(interval);
+export function validateKlineInterval(interval: string): interval is KlineInterval {
+  return (KLINE_INTERVALS as string[]).includes(interval);
 }
 
 function validateNetwork(network: string): boolean {
@@ -47,13 +103,17 @@ function validateAddress(address: string): boolean {
   return /^0x[a-fA-F0-9]{40}$/.test(address);
 }
 
+// K线时间为毫秒时间戳字符串，也接受 ISO 时间
 function validateTimestamp(timestamp: string): boolean {
+  if (/^\d+$/.test(timestamp)) {
+    return true;
+  }
   const date = new Date(timestamp);
   return !isNaN(date.getTime());
 }
 
 // 插入K线数据
-export async function insertKline(kline: Omit<Kline, 'id' | 'created_at'>): Promise<number> {
+export async function insertKline(kline: KlineInput): Promise<number> {
   // 输入验证
   if (!validateNetwork(kline.network)) {
     throw new Error('Invalid network format');
@@ -72,9 +132,12 @@ export async function insertKline(kline: Omit<Kline, 'id' | 'created_at'>): Prom
   }
   
   // 验证价格数据格式
-  const prices = [kline.open, kline.high, kline.low, kline.close, kline.volume];
+  const prices = [
+    kline.open, kline.high, kline.low, kline.close, kline.volume,
+    kline.quote_volume ?? '0', kline.buy_volume ?? '0', kline.sell_volume ?? '0'
+  ];
   for (const price of prices) {
-    if (isNaN(parseFloat(price)) || parseFloat(price) < 0) {
+    if (!isValidDecimal(price) || compareDecimals(price, '0') < 0) {
       throw new Error(`Invalid price data: ${price}`);
     }
   }
@@ -83,21 +146,8 @@ export async function insertKline(kline: Omit<Kline, 'id' | 'created_at'>): Prom
   
   try {
     const result = await db.run(
-      `INSERT INTO klines (
-        network, pair_address, interval_type, timestamp, 
-        open, high, low, close, volume
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        kline.network,
-        kline.pair_address,
-        kline.interval_type,
-        kline.timestamp,
-        kline.open,
-        kline.high,
-        kline.low,
-        kline.close,
-        kline.volume
-      ]
+      `INSERT INTO klines (${KLINE_INSERT_COLUMNS}) VALUES (${KLINE_INSERT_PLACEHOLDERS})`,
+      toKlineParams(kline)
     );
     return result.lastID as number;
   } catch (error) {
@@ -107,29 +157,16 @@ export async function insertKline(kline: Omit<Kline, 'id' | 'created_at'>): Prom
 }
 
 // 批量插入K线数据
-export async function insertKlines(klines: Omit<Kline, 'id' | 'created_at'>[]): Promise<void> {
+export async function insertKlines(klines: KlineInput[]): Promise<void> {
   const db = await getDatabase();
   const stmt = await db.prepare(
-    `INSERT INTO klines (
-      network, pair_address, interval_type, timestamp, 
-      open, high, low, close, volume
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    `INSERT INTO klines (${KLINE_INSERT_COLUMNS}) VALUES (${KLINE_INSERT_PLACEHOLDERS})`
   );
   
   try {
     await db.exec('BEGIN TRANSACTION');
     for (const kline of klines) {
-      await stmt.run([
-        kline.network,
-        kline.pair_address,
-        kline.interval_type,
-        kline.timestamp,
-        kline.open,
-        kline.high,
-        kline.low,
-        kline.close,
-        kline.volume
-      ]);
+      await stmt.run(toKlineParams(kline));
     }
     await db.exec('COMMIT');
   } catch (error) {
@@ -141,34 +178,36 @@ export async function insertKlines(klines: Omit<Kline, 'id' | 'created_at'>[]):
 }
 
 // 插入或更新K线数据（基于唯一键：network + pair_address + interval_type + timestamp）
-export async function upsertKline(kline: Omit<Kline, 'id' | 'created_at'>): Promise<void> {
+// 周期未结束的K线以 is_complete = false 写入检查点，重启后据此恢复
+export async function upsertKline(kline: KlineInput): Promise<void> {
   const db = await getDatabase();
   await db.run(
-    `INSERT INTO klines (
-      network, pair_address, interval_type, timestamp, 
-      open, high, low, close, volume
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `INSERT INTO klines (${KLINE_INSERT_COLUMNS}) VALUES (${KLINE_INSERT_PLACEHOLDERS})
     ON CONFLICT(network, pair_address, interval_type, timestamp) 
     DO UPDATE SET
       open = excluded.open,
       high = excluded.high,
       low = excluded.low,
       close = excluded.close,
-      volume = excluded.volume`,
-    [
-      kline.network,
-      kline.pair_address,
-      kline.interval_type,
-      kline.timestamp,
-      kline.open,
-      kline.high,
-      kline.low,
-      kline.close,
-      kline.volume
-    ]
+      volume = excluded.volume,
+      quote_volume = excluded.quote_volume,
+      buy_volume = excluded.buy_volume,
+      sell_volume = excluded.sell_volume,
+      trade_count = excluded.trade_count,
+      unique_traders = excluded.unique_traders,
+      is_complete = excluded.is_complete`,
+    toKlineParams(kline)
   );
 }
 
+// 获取所有周期未结束的K线检查点
+export async function getIncompleteKlines(): Promise<Kline[]> {
+  const db = await getDatabase();
+  return await db.all(
+    'SELECT * FROM klines WHERE is_complete = 0 ORDER BY timestamp ASC'
+  ) as Kline[];
+}
+
 // 根据ID查询K线数据
 export async function getKlineById(id: number): Promise<Kline | null> {
   const db = await getDatabase();
@@ -203,6 +242,10 @@ export async function getKlines(options: PaginatedKlineQueryOptions): Promise<Kl
     throw new Error('Invalid endTime format');
   }
   
+  if (options.before && !validateTimestamp(options.before)) {
+    throw new Error('Invalid before format');
+  }
+  
   if (options.limit && (options.limit <= 0 || options.limit > 10000)) {
     throw new Error('Limit must be between 1 and 10000');
   }
@@ -240,6 +283,11 @@ export async function getKlines(options: PaginatedKlineQueryOptions): Promise<Kl
     params.push(options.endTime);
   }
   
+  if (options.before) {
+    sql += ' AND timestamp < ?';
+    params.push(options.before);
+  }
+  
   // 排序
   const orderDirection = options.orderDirection || 'ASC';
   sql += ` ORDER BY timestamp ${orderDirection}`;
@@ -259,24 +307,70 @@ export async function getKlines(options: PaginatedKlineQueryOptions): Promise<Kl
   return rows;
 }
 
-// 获取最新的K线数据
+// 获取最新的K线数据（指定 beforeTimestamp 时只取该时间之前的K线）
 export async function getLatestKline(options: {
   network: string;
   pairAddress: string;
   intervalType: KlineInterval;
+  beforeTimestamp?: number;
+}): Promise<Kline | null> {
+  const db = await getDatabase();
+  
+  let sql = 'SELECT * FROM klines WHERE network = ? AND pair_address = ? AND interval_type = ?';
+  const params: unknown[] = [options.network, options.pairAddress, options.intervalType];
+  
+  if (options.beforeTimestamp !== undefined) {
+    sql += ' AND timestamp < ?';
+    params.push(options.beforeTimestamp);
+  }
+  
+  sql += ' ORDER BY timestamp DESC LIMIT 1';
+  
+  const row = await db.get(sql, params) as Kline | undefined;
+  
+  return row || null;
+}
+
+// 获取指定周期开始时间的K线数据
+export async function getKlineByTimestamp(options: {
+  network: string;
+  pairAddress: string;
+  intervalType: KlineInterval;
+  timestamp: number;
 }): Promise<Kline | null> {
   const db = await getDatabase();
   const row = await db.get(
     `SELECT * FROM klines 
-     WHERE network = ? AND pair_address = ? AND interval_type = ?
-     ORDER BY timestamp DESC 
-     LIMIT 1`,
-    [options.network, options.pairAddress, options.intervalType]
+     WHERE network = ? AND pair_address = ? AND interval_type = ? AND timestamp = ?`,
+    [options.network, options.pairAddress, options.intervalType, options.timestamp]
   ) as Kline | undefined;
   
   return row || null;
 }
 
+// 获取周期开始时间在 [fromTimestamp, toTimestamp) 内的K线，按时间升序
+export async function getKlinesInRange(options: {
+  network: string;
+  pairAddress: string;
+  intervalType: KlineInterval;
+  fromTimestamp: number;
+  toTimestamp?: number;
+}): Promise<Kline[]> {
+  const db = await getDatabase();
+  
+  let sql = 'SELECT * FROM klines WHERE network = ? AND pair_address = ? AND interval_type = ? AND timestamp >= ?';
+  const params: unknown[] = [options.network, options.pairAddress, options.intervalType, options.fromTimestamp];
+  
+  if (options.toTimestamp !== undefined) {
+    sql += ' AND timestamp < ?';
+    params.push(options.toTimestamp);
+  }
+  
+  sql += ' ORDER BY timestamp ASC';
+  
+  return await db.all(sql, params) as Kline[];
+}
+
 // 统计K线数据数量
 export async function getKlinesCount(options: {
   network?: string;
@@ -337,13 +431,9 @@ export async function getKlineStatistics(options: {
 }> {
   const db = await getDatabase();
   
+  // 价格和成交量以十进制字符串保存，取出后用定点小数统计，避免浮点误差
   let sql = `
-    SELECT 
-      COUNT(*) as count,
-      MAX(CAST(high AS REAL)) as highestPrice,
-      MIN(CAST(low AS REAL)) as lowestPrice,
-      SUM(CAST(volume AS REAL)) as totalVolume,
-      AVG(CAST(volume AS REAL)) as avgVolume
+    SELECT open, high, low, close, volume
     FROM klines 
     WHERE network = ? AND pair_address = ? AND interval_type = ?
   `;
@@ -359,70 +449,40 @@ export async function getKlineStatistics(options: {
     params.push(options.endTime);
   }
   
-  const result = await db.get(sql, params) as {
-    count: number;
-    highestPrice: number;
-    lowestPrice: number;
-    totalVolume: number;
-    avgVolume: number;
-  };
-  
-  // 获取首尾价格计算涨跌幅
-  // 构建首个K线查询
-  let firstKlineSql = `SELECT open FROM klines WHERE network = ? AND pair_address = ? AND interval_type = ?`;
-  const firstKlineParams: any[] = [options.network, options.pairAddress, options.intervalType];
-  
-  if (options.startTime) {
-    firstKlineSql += ' AND timestamp >= ?';
-    firstKlineParams.push(options.startTime);
-  }
-  
-  if (options.endTime) {
-    firstKlineSql += ' AND timestamp <= ?';
-    firstKlineParams.push(options.endTime);
-  }
-  
-  firstKlineSql += ' ORDER BY timestamp ASC LIMIT 1';
-  
-  const firstKline = await db.get(firstKlineSql, firstKlineParams) as { open: string } | undefined;
+  sql += ' ORDER BY timestamp ASC';
   
-  // 构建最后一个K线查询
-  let lastKlineSql = `SELECT close FROM klines WHERE network = ? AND pair_address = ? AND interval_type = ?`;
-  const lastKlineParams: any[] = [options.network, options.pairAddress, options.intervalType];
-  
-  if (options.startTime) {
-    lastKlineSql += ' AND timestamp >= ?';
-    lastKlineParams.push(options.startTime);
-  }
+  const klines = await db.all(sql, params) as Pick<Kline, 'open' | 'high' | 'low' | 'close' | 'volume'>[];
   
-  if (options.endTime) {
-    lastKlineSql += ' AND timestamp <= ?';
-    lastKlineParams.push(options.endTime);
+  if (klines.length === 0) {
+    return {
+      count: 0,
+      highestPrice: '0',
+      lowestPrice: '0',
+      totalVolume: '0',
+      avgVolume: '0',
+      priceChange: '0',
+      priceChangePercent: '0'
+    };
   }
   
-  lastKlineSql += ' ORDER BY timestamp DESC LIMIT 1';
-  
-  const lastKline = await db.get(lastKlineSql, lastKlineParams) as { close: string } | undefined;
+  const highestPrice = klines.reduce((highest, kline) => maxDecimal(highest, kline.high), klines[0].high);
+  const lowestPrice = klines.reduce((lowest, kline) => minDecimal(lowest, kline.low), klines[0].low);
+  const totalVolume = sumDecimals(klines.map(kline => kline.volume));
   
-  let priceChange = '0';
-  let priceChangePercent = '0';
-  
-  if (firstKline && lastKline) {
-    const firstPrice = parseFloat(firstKline.open);
-    const lastPrice = parseFloat(lastKline.close);
-    const change = lastPrice - firstPrice;
-    const changePercent = firstPrice > 0 ? (change / firstPrice) * 100 : 0;
-    
-    priceChange = change.toString();
-    priceChangePercent = changePercent.toString();
-  }
+  // 首尾价格计算涨跌幅
+  const firstPrice = klines[0].open;
+  const lastPrice = klines[klines.length - 1].close;
+  const priceChange = subtractDecimals(lastPrice, firstPrice);
+  const priceChangePercent = compareDecimals(firstPrice, '0') > 0
+    ? divideDecimals(multiplyDecimals(priceChange, '100'), firstPrice)
+    : '0';
   
   return {
-    count: result.count || 0,
-    highestPrice: (result.highestPrice || 0).toString(),
-    lowestPrice: (result.lowestPrice || 0).toString(),
-    totalVolume: (result.totalVolume || 0).toString(),
-    avgVolume: (result.avgVolume || 0).toString(),
+    count: klines.length,
+    highestPrice: normalizeDecimal(highestPrice),
+    lowestPrice: normalizeDecimal(lowestPrice),
+    totalVolume,
+    avgVolume: divideDecimals(totalVolume, klines.length),
     priceChange,
     priceChangePercent
   };
@@ -466,6 +526,8 @@ export async function deleteKlinesByCondition(options: {
   pairAddress?: string;
   intervalType?: KlineInterval;
   olderThan?: string; // ISO 日期字符串
+  fromTimestamp?: number; // K线周期开始时间（毫秒），删除该周期及之后的K线
+  toTimestamp?: number; // 只删除周期开始时间早于该时间（毫秒）的K线
 }): Promise<number> {
   const db = await getDatabase();
   
@@ -492,6 +554,69 @@ export async function deleteKlinesByCondition(options: {
     params.push(options.olderThan);
   }
   
+  if (options.fromTimestamp !== undefined) {
+    sql += ' AND timestamp >= ?';
+    params.push(options.fromTimestamp);
+  }
+  
+  if (options.toTimestamp !== undefined) {
+    sql += ' AND timestamp < ?';
+    params.push(options.toTimestamp);
+  }
+  
+  const result = await db.run(sql, params);
+  return result.changes || 0;
+}
+
+// 计入K线的成交，按 (network, interval_type, tx_hash, log_index) 记录每笔成交已计入哪个周期的K线
+export interface KlineTradeKey {
+  network: string;
+  pairAddress: string;
+  intervalType: KlineInterval;
+  klineTimestamp: number; // K线周期开始时间（毫秒）
+  txHash: string;
+  logIndex: number;
+}
+
+// 记录成交已计入K线，返回是否为首次记录；已记录过时说明该成交已经计入，不应重复累加
+export async function markKlineTradeApplied(trade: KlineTradeKey): Promise<boolean> {
+  const db = await getDatabase();
+  const result = await db.run(
+    `INSERT OR IGNORE INTO kline_trades (
+      network, pair_address, interval_type, kline_timestamp, tx_hash, log_index
+    ) VALUES (?, ?, ?, ?, ?, ?)`,
+    [trade.network, trade.pairAddress, trade.intervalType, trade.klineTimestamp, trade.txHash, trade.logIndex]
+  );
+  return (result.changes || 0) > 0;
+}
+
+// 撤销成交的计入记录（计入K线失败时），使重试时能再次计入
+export async function unmarkKlineTradeApplied(trade: KlineTradeKey): Promise<void> {
+  const db = await getDatabase();
+  await db.run(
+    'DELETE FROM kline_trades WHERE network = ? AND interval_type = ? AND tx_hash = ? AND log_index = ?',
+    [trade.network, trade.intervalType, trade.txHash, trade.logIndex]
+  );
+}
+
+// 删除交易对在指定周期中、K线开始时间在 [fromTimestamp, toTimestamp) 内的成交计入记录，用于重建K线
+export async function deleteKlineTrades(options: {
+  network: string;
+  pairAddress: string;
+  intervalType: KlineInterval;
+  fromTimestamp: number;
+  toTimestamp?: number;
+}): Promise<number> {
+  const db = await getDatabase();
+
+  let sql = 'DELETE FROM kline_trades WHERE network = ? AND pair_address = ? AND interval_type = ? AND kline_timestamp >= ?';
+  const params: unknown[] = [options.network, options.pairAddress, options.intervalType, options.fromTimestamp];
+
+  if (options.toTimestamp !== undefined) {
+    sql += ' AND kline_timestamp < ?';
+    params.push(options.toTimestamp);
+  }
+
   const result = await db.run(sql, params);
   return result.changes || 0;
 }
@@ -630,6 +755,16 @@ export async function getKlineTimeRange(options: BaseKlineQueryOptions): Promise
     params.push(options.intervalType);
   }
   
+  if (options.startTime) {
+    sql += ' AND timestamp >= ?';
+    params.push(options.startTime);
+  }
+  
+  if (options.endTime) {
+    sql += ' AND timestamp <= ?';
+    params.push(options.endTime);
+  }
+  
   const result = await db.get(sql, params) as {
     earliest: string | null;
     latest: string | null;
@@ -692,19 +827,276 @@ export async function detectKlineGaps(options: {
 }
 
 // 根据时间间隔类型获取毫秒数
-function getIntervalMilliseconds(interval: KlineInterval): number {
+export function getIntervalMilliseconds(interval: KlineInterval): number {
   const intervals: Record<KlineInterval, number> = {
     '30s': 30 * 1000,
     '1m': 60 * 1000,
     '15m': 15 * 60 * 1000,
     '1h': 60 * 60 * 1000,
     '4h': 4 * 60 * 60 * 1000,
-    '1d': 24 * 60 * 60 * 1000
+    '1d': 24 * 60 * 60 * 1000,
+    '1w': 7 * 24 * 60 * 60 * 1000
   };
   
   return intervals[interval];
 }
 
+// 周K线的锚点：1970-01-01 是周四，从 1970-01-05（周一）起按周划分
+const WEEK_ANCHOR_MS = 4 * 24 * 60 * 60 * 1000;
+
+// 按时区偏移（分钟，如 UTC+8 为 480）对齐时允许的来源周期，从长到短选择能整除偏移和目标周期的一个
+const TIMEZONE_SOURCE_INTERVALS: KlineInterval[] = ['4h', '1h', '15m'];
+
+/**
+ * 获取K线周期的开始时间（毫秒）
+ * 周期按 UTC 对齐，周K线从周一开始；传入 offsetMinutes 时按该 UTC 偏移的本地时间对齐
+ */
+export function getKlinePeriodStart(timestamp: number, interval: KlineInterval, offsetMinutes: number = 0): number {
+  const intervalMs = getIntervalMilliseconds(interval);
+  const anchor = (interval === '1w' ? WEEK_ANCHOR_MS : 0) - offsetMinutes * 60 * 1000;
+  return Math.floor((timestamp - anchor) / intervalMs) * intervalMs + anchor;
+}
+
+// 时区偏移是否需要重新汇总该周期：偏移是周期的整数倍时与 UTC 对齐的K线相同
+export function isKlineOffsetAligned(interval: KlineInterval, offsetMinutes: number): boolean {
+  return (offsetMinutes * 60 * 1000) % getIntervalMilliseconds(interval) === 0;
+}
+
+// 可以逐根合并的K线字段；独立交易地址数无法由各根K线相加得到，需要按成交记录重新统计
+export type MergeableKline = Pick<Kline, 'open' | 'high' | 'low' | 'close' | 'volume' | 'quote_volume' | 'buy_volume' | 'sell_volume' | 'trade_count'>;
+
+// 把按时间升序排列的K线合并为一根，忽略还没有价格的空K线
+export function mergeKlines(klines: MergeableKline[]): MergeableKline | null {
+  const pricedKlines = klines.filter(kline => kline.close !== '0');
+  if (pricedKlines.length === 0) {
+    return null;
+  }
+
+  const first = pricedKlines[0];
+  const last = pricedKlines[pricedKlines.length - 1];
+  let high = first.high;
+  let low = first.low;
+
+  for (const kline of pricedKlines) {
+    high = maxDecimal(high, kline.high);
+    low = minDecimal(low, kline.low);
+  }
+
+  return {
+    open: first.open,
+    high,
+    low,
+    close: last.close,
+    volume: sumDecimals(pricedKlines.map(kline => kline.volume)),
+    quote_volume: sumDecimals(pricedKlines.map(kline => kline.quote_volume)),
+    buy_volume: sumDecimals(pricedKlines.map(kline => kline.buy_volume)),
+    sell_volume: sumDecimals(pricedKlines.map(kline => kline.sell_volume)),
+    trade_count: pricedKlines.reduce((count, kline) => count + kline.trade_count, 0)
+  };
+}
+
+// 按时区偏移汇总时使用的来源周期，不存在能整除偏移和目标周期的来源周期时抛出错误
+export function getKlineOffsetSourceInterval(interval: KlineInterval, offsetMinutes: number): KlineInterval {
+  const intervalMs = getIntervalMilliseconds(interval);
+  const offsetMs = offsetMinutes * 60 * 1000;
+  const source = TIMEZONE_SOURCE_INTERVALS.find(sourceInterval => {
+    const sourceMs = getIntervalMilliseconds(sourceInterval);
+    return sourceMs < intervalMs && intervalMs % sourceMs === 0 && offsetMs % sourceMs === 0;
+  });
+  if (!source) {
+    throw new Error(`Cannot align ${interval} klines to UTC offset ${offsetMinutes} minutes`);
+  }
+  return source;
+}
+
+// 按时区偏移汇总的K线，timestamp 与数据库中读出的K线一样为毫秒数
+export type OffsetKline = Omit<Kline, 'id' | 'created_at' | 'timestamp'> & { timestamp: number };
+
+/**
+ * 按时区偏移查询K线：用更短周期的K线按该时区的周期边界重新汇总，返回最近 limit 根，按时间倒序
+ * offsetMinutes 需为 15 分钟的整数倍
+ * fromTimestamp/toTimestamp 限定周期开始时间的范围（含），beforeTimestamp 只返回该时间之前（不含）开始的周期
+ */
+export async function getKlinesWithOffset(options: {
+  network: string;
+  pairAddress: string;
+  intervalType: KlineInterval;
+  offsetMinutes: number;
+  limit: number;
+  fromTimestamp?: number;
+  toTimestamp?: number;
+  beforeTimestamp?: number;
+}): Promise<OffsetKline[]> {
+  const intervalMs = getIntervalMilliseconds(options.intervalType);
+  const source = getKlineOffsetSourceInterval(options.intervalType, options.offsetMinutes);
+
+  // 最后一个周期的开始时间需早于 endBefore
+  const endBefore = Math.min(
+    options.beforeTimestamp ?? Infinity,
+    options.toTimestamp !== undefined ? options.toTimestamp + 1 : Infinity
+  );
+  const latest = await getLatestKline({
+    network: options.network,
+    pairAddress: options.pairAddress,
+    intervalType: source,
+    beforeTimestamp: isFinite(endBefore) ? endBefore : undefined
+  });
+  if (!latest) {
+    return [];
+  }
+
+  // 第一个周期的开始时间不早于 fromTimestamp
+  const lastPeriodStart = getKlinePeriodStart(Number(latest.timestamp), options.intervalType, options.offsetMinutes);
+  let firstPeriodStart = lastPeriodStart - (options.limit - 1) * intervalMs;
+  if (options.fromTimestamp !== undefined) {
+    const fromPeriodStart = getKlinePeriodStart(options.fromTimestamp, options.intervalType, options.offsetMinutes);
+    const alignedFrom = fromPeriodStart < options.fromTimestamp ? fromPeriodStart + intervalMs : fromPeriodStart;
+    firstPeriodStart = Math.max(firstPeriodStart, alignedFrom);
+  }
+  if (firstPeriodStart > lastPeriodStart) {
+    return [];
+  }
+
+  const sourceKlines = await getKlinesInRange({
+    network: options.network,
+    pairAddress: options.pairAddress,
+    intervalType: source,
+    fromTimestamp: firstPeriodStart,
+    toTimestamp: lastPeriodStart + intervalMs
+  });
+
+  // 按目标周期分组后逐个汇总
+  const groups = new Map<number, Kline[]>();
+  for (const sourceKline of sourceKlines) {
+    const periodStart = getKlinePeriodStart(Number(sourceKline.timestamp), options.intervalType, options.offsetMinutes);
+    const group = groups.get(periodStart) || [];
+    group.push(sourceKline);
+    groups.set(periodStart, group);
+  }
+
+  // 按目标周期统计独立交易地址数
+  const tradersByPeriod = new Map<number, Set<string>>();
+  if (groups.size > 0) {
+    const periodStarts = Array.from(groups.keys());
+    const traders = await getTradersInTimeRange({
+      network: options.network,
+      tokenAddress: options.pairAddress,
+      startTime: new Date(Math.min(...periodStarts)).toISOString(),
+      endTime: new Date(Math.max(...periodStarts) + intervalMs).toISOString()
+    });
+    for (const trader of traders) {
+      const periodStart = getKlinePeriodStart(new Date(trader.timestamp).getTime(), options.intervalType, options.offsetMinutes);
+      const periodTraders = tradersByPeriod.get(periodStart) || new Set<string>();
+      periodTraders.add(trader.user_address);
+      tradersByPeriod.set(periodStart, periodTraders);
+    }
+  }
+
+  const klines: OffsetKline[] = [];
+  for (const [periodStart, group] of groups) {
+    const merged = mergeKlines(group);
+    if (!merged) continue;
+
+    klines.push({
+      network: options.network,
+      pair_address: options.pairAddress,
+      interval_type: options.intervalType,
+      timestamp: periodStart,
+      ...merged,
+      unique_traders: tradersByPeriod.get(periodStart)?.size || 0,
+      is_complete: group.every(kline => kline.is_complete !== 0) ? 1 : 0
+    });
+  }
+
+  return klines.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * 补齐查询范围内没有成交的周期：用上一根K线的收盘价生成平盘K线（成交量为 0），使时间轴连续
+ * klines 为 getKlines/getKlinesWithOffset 按相同条件查询到的K线（按时间倒序），返回范围内最近 limit 个周期，按时间倒序
+ * 范围的结束时间不晚于当前周期；第一根有价格的K线之前的周期无法确定价格，不会补齐
+ */
+export async function fillKlineGaps(
+  klines: (Omit<Kline, 'id' | 'created_at' | 'timestamp'> & { timestamp: string | number })[],
+  options: {
+    network: string;
+    pairAddress: string;
+    intervalType: KlineInterval;
+    offsetMinutes: number;
+    limit: number;
+    fromTimestamp?: number;
+    toTimestamp?: number;
+    beforeTimestamp?: number;
+  }
+): Promise<OffsetKline[]> {
+  const intervalMs = getIntervalMilliseconds(options.intervalType);
+  const now = Date.now();
+
+  // 范围内最后一个周期：开始时间早于 before、不晚于 to，且不晚于当前周期
+  const endBefore = Math.min(
+    options.beforeTimestamp ?? Infinity,
+    options.toTimestamp !== undefined ? options.toTimestamp + 1 : Infinity,
+    now + 1
+  );
+  const lastPeriodStart = getKlinePeriodStart(endBefore - 1, options.intervalType, options.offsetMinutes);
+  let firstPeriodStart = lastPeriodStart - (options.limit - 1) * intervalMs;
+  if (options.fromTimestamp !== undefined) {
+    const fromPeriodStart = getKlinePeriodStart(options.fromTimestamp, options.intervalType, options.offsetMinutes);
+    const alignedFrom = fromPeriodStart < options.fromTimestamp ? fromPeriodStart + intervalMs : fromPeriodStart;
+    firstPeriodStart = Math.max(firstPeriodStart, alignedFrom);
+  }
+
+  // 范围之前最后一根K线的收盘价作为起始价格；按时区重新汇总时查找来源周期，保证该K线在范围开始前结束
+  const priceInterval = isKlineOffsetAligned(options.intervalType, options.offsetMinutes)
+    ? options.intervalType
+    : getKlineOffsetSourceInterval(options.intervalType, options.offsetMinutes);
+  const previousKline = await getLatestKline({
+    network: options.network,
+    pairAddress: options.pairAddress,
+    intervalType: priceInterval,
+    beforeTimestamp: firstPeriodStart
+  });
+  let previousClose = previousKline && previousKline.close !== '0' ? previousKline.close : null;
+
+  const klinesByPeriod = new Map(klines.map(kline => [Number(kline.timestamp), kline]));
+  const filled: OffsetKline[] = [];
+
+  for (let periodStart = firstPeriodStart; periodStart <= lastPeriodStart; periodStart += intervalMs) {
+    const kline = klinesByPeriod.get(periodStart);
+    if (kline) {
+      filled.push({ ...kline, timestamp: periodStart });
+      if (kline.close !== '0') {
+        previousClose = kline.close;
+      }
+      continue;
+    }
+
+    if (previousClose === null) {
+      continue;
+    }
+
+    filled.push({
+      network: options.network,
+      pair_address: options.pairAddress,
+      interval_type: options.intervalType,
+      timestamp: periodStart,
+      open: previousClose,
+      high: previousClose,
+      low: previousClose,
+      close: previousClose,
+      volume: '0',
+      quote_volume: '0',
+      buy_volume: '0',
+      sell_volume: '0',
+      trade_count: 0,
+      unique_traders: 0,
+      is_complete: periodStart + intervalMs <= now ? 1 : 0
+    });
+  }
+
+  return filled.reverse();
+}
+
 // 获取K线数据概览
 export async function getKlineOverview(options?: {
   network?: string;
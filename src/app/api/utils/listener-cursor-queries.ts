@@ -0,0 +1,52 @@
+import { getDatabase } from './db-core';
+
+// ListenerCursor 接口定义
+export interface ListenerCursor {
+  id: number;
+  network: string;
+  listener: string;
+  last_block: number;
+  block_hash: string | null;
+  updated_at: string;
+}
+
+// 获取监听器已处理到的区块号及该区块哈希
+export async function getListenerCursor(network: string, listener: string): Promise<{
+  blockNumber: bigint;
+  blockHash: string | null;
+} | null> {
+  const db = await getDatabase();
+  const row = await db.get(
+    'SELECT * FROM listener_cursors WHERE network = ? AND listener = ?',
+    [network, listener]
+  ) as ListenerCursor | undefined;
+
+  if (!row) {
+    return null;
+  }
+
+  return {
+    blockNumber: BigInt(row.last_block),
+    blockHash: row.block_hash
+  };
+}
+
+// 更新监听器已处理到的区块号（链重组回滚时也用于回退游标）
+export async function updateListenerCursor(
+  network: string,
+  listener: string,
+  blockNumber: bigint,
+  blockHash: string | null
+): Promise<void> {
+  const db = await getDatabase();
+  await db.run(
+    `INSERT INTO listener_cursors (network, listener, last_block, block_hash, updated_at)
+     VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(network, listener)
+     DO UPDATE SET
+       last_block = excluded.last_block,
+       block_hash = excluded.block_hash,
+       updated_at = CURRENT_TIMESTAMP`,
+    [network, listener, Number(blockNumber), blockHash]
+  );
+}
@@ -1,5 +1,18 @@
 import { executeQuery, executeQueryOne, executeUpdate, getDatabase } from './db-core';
 
+// 联合曲线生命周期：已创建池子 -> 交易中 -> 已毕业（迁移到 AMM）
+export type MemeTokenLifecycleStatus = 'created' | 'trading' | 'graduated';
+
+// 各生命周期阶段的先后顺序
+const LIFECYCLE_ORDER: MemeTokenLifecycleStatus[] = ['created', 'trading', 'graduated'];
+
+// 各生命周期阶段记录时间和交易哈希的列
+const LIFECYCLE_COLUMNS: Record<MemeTokenLifecycleStatus, { at: string; tx: string }> = {
+  created: { at: 'pool_created_at', tx: 'pool_created_tx' },
+  trading: { at: 'trading_started_at', tx: 'trading_started_tx' },
+  graduated: { at: 'graduated_at', tx: 'graduated_tx' }
+};
+
 export interface MemeToken {
   id: number;
   address: string;
@@ -7,15 +20,29 @@ export interface MemeToken {
   name: string;
   decimals: number;
   total_supply: string;
+  price_eth: number;
   price_usd: number;
   market_cap: number;
   volume_24h: number;
+  volume_24h_eth: number;
+  trade_count_24h: number;
+  buy_count_24h: number;
+  sell_count_24h: number;
+  circulating_supply: string;
+  circulating_market_cap: number;
   description?: string;
   logo_uri?: string;
   twitterAddress?: string;
   telegramAddress?: string;
   websiteAddress?: string;
   is_verified: boolean;
+  lifecycle_status: MemeTokenLifecycleStatus;
+  pool_created_at?: string;
+  pool_created_tx?: string;
+  trading_started_at?: string;
+  trading_started_tx?: string;
+  graduated_at?: string;
+  graduated_tx?: string;
   created_at: string;
   updated_at: string;
 }
@@ -88,6 +115,8 @@ export async function insertMemeToken(tokenData: CreateMemeTokenData): Promise<v
 
 /**
  * 更新或插入 Meme 代币（如果地址已存在则更新）
+ * 已存在时只更新代币元数据；价格、市值、交易量、图标和认证状态未传入时保留已有值
+ * 生命周期和成交统计等由索引器维护的字段不受影响
  */
 export async function upsertMemeToken(tokenData: CreateMemeTokenData): Promise<void> {
   const {
@@ -96,28 +125,40 @@ export async function upsertMemeToken(tokenData: CreateMemeTokenData): Promise<v
     name,
     decimals = 18,
     total_supply = '0',
-    price_usd = 0,
-    market_cap = 0,
-    volume_24h = 0,
+    price_usd,
+    market_cap,
+    volume_24h,
     description,
     logo_uri,
     twitterAddress,
     telegramAddress,
     websiteAddress,
-    is_verified = false
+    is_verified
   } = tokenData;
 
   await executeUpdate(
     `
-    INSERT OR REPLACE INTO meme_tokens (
+    INSERT INTO meme_tokens (
       address, symbol, name, decimals, total_supply, price_usd, 
       market_cap, volume_24h, description, logo_uri, 
       twitterAddress, telegramAddress, websiteAddress, is_verified, 
       created_at, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 
-      COALESCE((SELECT created_at FROM meme_tokens WHERE address = ?), datetime('now', 'localtime')),
-      datetime('now', 'localtime')
-    )
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now', 'localtime'), datetime('now', 'localtime'))
+    ON CONFLICT(address) DO UPDATE SET
+      symbol = excluded.symbol,
+      name = excluded.name,
+      decimals = excluded.decimals,
+      total_supply = excluded.total_supply,
+      description = excluded.description,
+      twitterAddress = excluded.twitterAddress,
+      telegramAddress = excluded.telegramAddress,
+      websiteAddress = excluded.websiteAddress,
+      logo_uri = COALESCE(excluded.logo_uri, meme_tokens.logo_uri),
+      price_usd = COALESCE(?, meme_tokens.price_usd),
+      market_cap = COALESCE(?, meme_tokens.market_cap),
+      volume_24h = COALESCE(?, meme_tokens.volume_24h),
+      is_verified = COALESCE(?, meme_tokens.is_verified),
+      updated_at = excluded.updated_at
     `,
     [
       address,
@@ -125,20 +166,43 @@ export async function upsertMemeToken(tokenData: CreateMemeTokenData): Promise<v
       name,
       decimals,
       total_supply,
-      price_usd,
-      market_cap,
-      volume_24h,
+      price_usd ?? 0,
+      market_cap ?? 0,
+      volume_24h ?? 0,
       description,
-      logo_uri,
+      logo_uri || null,
       twitterAddress,
       telegramAddress,
       websiteAddress,
       is_verified ? 1 : 0,
-      address
+      // 已存在时只覆盖传入的字段
+      price_usd ?? null,
+      market_cap ?? null,
+      volume_24h ?? null,
+      is_verified === undefined ? null : (is_verified ? 1 : 0)
     ]
   );
 }
 
+/**
+ * 补充 Meme 代币的链下元数据（如用户上传的图标），只填充尚未设置的字段
+ * 返回是否找到了该代币
+ */
+export async function updateMemeTokenOffchainMetadata(
+  address: string,
+  metadata: { logo_uri?: string }
+): Promise<boolean> {
+  const database = await getDatabase();
+  const result = await database.run(
+    `UPDATE meme_tokens 
+     SET logo_uri = COALESCE(NULLIF(logo_uri, ''), ?), updated_at = datetime('now', 'localtime')
+     WHERE address = ?`,
+    [metadata.logo_uri || null, address]
+  );
+
+  return (result.changes || 0) > 0;
+}
+
 /**
  * 根据地址获取 Meme 代币
  */
@@ -164,25 +228,30 @@ export async function getMemeTokenBySymbol(symbol: string): Promise<MemeToken |
 }
 
 /**
- * 获取所有 Meme 代币列表
+ * 获取所有 Meme 代币列表（可按生命周期状态筛选）
  */
 export async function getAllMemeTokens(
   limit: number = 50,
   offset: number = 0,
   orderBy: 'created_at' | 'market_cap' | 'volume_24h' = 'created_at',
-  orderDirection: 'ASC' | 'DESC' = 'DESC'
+  orderDirection: 'ASC' | 'DESC' = 'DESC',
+  lifecycleStatus?: MemeTokenLifecycleStatus
 ): Promise<{ tokens: MemeToken[]; total: number }> {
+  const whereClause = lifecycleStatus ? 'WHERE lifecycle_status = ?' : '';
+  const filterParams = lifecycleStatus ? [lifecycleStatus] : [];
+
   // 获取总数
   const countResult = await executeQueryOne(
-    'SELECT COUNT(*) as count FROM meme_tokens'
+    `SELECT COUNT(*) as count FROM meme_tokens ${whereClause}`,
+    filterParams
   ) as { count: number };
   
   const total = countResult.count;
 
   // 获取分页数据
   const tokens = await executeQuery(
-    `SELECT * FROM meme_tokens ORDER BY ${orderBy} ${orderDirection} LIMIT ? OFFSET ?`,
-    [limit, offset]
+    `SELECT * FROM meme_tokens ${whereClause} ORDER BY ${orderBy} ${orderDirection} LIMIT ? OFFSET ?`,
+    [...filterParams, limit, offset]
   ) as MemeToken[];
 
   return { tokens, total };
@@ -222,15 +291,22 @@ export async function searchMemeTokens(
 
 /**
  * 更新 Meme 代币价格信息
+ * price_eth 为以 ETH 计价的价格；price_usd 未传入时（ETH/USD 价格不可用）保留原值
  */
 export async function updateMemeTokenPrice(
   address: string,
-  price_usd: number,
+  price_eth: number,
+  price_usd?: number,
   market_cap?: number,
   volume_24h?: number
 ): Promise<void> {
-  const updateFields = ['price_usd = ?', 'updated_at = datetime(\'now\', \'localtime\')'];
-  const params: unknown[] = [price_usd];
+  const updateFields = ['price_eth = ?', 'updated_at = datetime(\'now\', \'localtime\')'];
+  const params: unknown[] = [price_eth];
+
+  if (price_usd !== undefined) {
+    updateFields.push('price_usd = ?');
+    params.push(price_usd);
+  }
 
   if (market_cap !== undefined) {
     updateFields.push('market_cap = ?');
@@ -263,6 +339,104 @@ export async function updateMemeTokenPrice(
   }
 }
 
+/**
+ * 更新 Meme 代币的24小时滚动成交统计（交易量分别以代币数量和 ETH 计）
+ */
+export async function updateMemeTokenVolume24h(
+  address: string,
+  stats: {
+    volume_24h: number;
+    volume_24h_eth: number;
+    trade_count_24h: number;
+    buy_count_24h: number;
+    sell_count_24h: number;
+  }
+): Promise<void> {
+  await executeUpdate(
+    `UPDATE meme_tokens SET 
+      volume_24h = ?, volume_24h_eth = ?, trade_count_24h = ?, buy_count_24h = ?, sell_count_24h = ?,
+      updated_at = datetime('now', 'localtime')
+    WHERE address = ?`,
+    [stats.volume_24h, stats.volume_24h_eth, stats.trade_count_24h, stats.buy_count_24h, stats.sell_count_24h, address]
+  );
+}
+
+/**
+ * 更新 Meme 代币市值：market_cap 为完全稀释市值，circulating_market_cap 为扣除 Pool 合约持有量后的流通市值
+ */
+export async function updateMemeTokenMarketCap(
+  address: string,
+  marketCap: {
+    market_cap: number;
+    circulating_market_cap: number;
+    circulating_supply: string;
+  }
+): Promise<void> {
+  await executeUpdate(
+    `UPDATE meme_tokens SET 
+      market_cap = ?, circulating_market_cap = ?, circulating_supply = ?,
+      updated_at = datetime('now', 'localtime')
+    WHERE address = ?`,
+    [marketCap.market_cap, marketCap.circulating_market_cap, marketCap.circulating_supply, address]
+  );
+}
+
+/**
+ * 获取24小时成交统计不为零的 Meme 代币地址
+ */
+export async function getMemeTokenAddressesWithVolume(): Promise<string[]> {
+  const rows = await executeQuery(
+    'SELECT address FROM meme_tokens WHERE trade_count_24h > 0 OR volume_24h > 0'
+  ) as { address: string }[];
+  return rows.map(row => row.address);
+}
+
+/**
+ * 获取所有 Meme 代币地址
+ */
+export async function getAllMemeTokenAddresses(): Promise<string[]> {
+  const rows = await executeQuery('SELECT address FROM meme_tokens') as { address: string }[];
+  return rows.map(row => row.address);
+}
+
+/**
+ * 推进 Meme 代币的生命周期状态，并记录进入该阶段的时间和交易哈希
+ * 状态只前进不回退，重复处理同一事件不会覆盖已记录的时间和哈希
+ * 返回是否找到了该代币
+ */
+export async function updateMemeTokenLifecycle(
+  address: string,
+  status: MemeTokenLifecycleStatus,
+  timestamp: string,
+  txHash: string
+): Promise<boolean> {
+  const { at, tx } = LIFECYCLE_COLUMNS[status];
+  const earlierStatuses = LIFECYCLE_ORDER.slice(0, LIFECYCLE_ORDER.indexOf(status));
+
+  const updateFields = [
+    `${at} = COALESCE(${at}, ?)`,
+    `${tx} = COALESCE(${tx}, ?)`,
+    'updated_at = datetime(\'now\', \'localtime\')'
+  ];
+  const params: unknown[] = [timestamp, txHash];
+
+  if (earlierStatuses.length > 0) {
+    updateFields.unshift(
+      `lifecycle_status = CASE WHEN lifecycle_status IN (${earlierStatuses.map(() => '?').join(', ')}) THEN ? ELSE lifecycle_status END`
+    );
+    params.unshift(...earlierStatuses, status);
+  }
+  params.push(address);
+
+  const database = await getDatabase();
+  const result = await database.run(
+    `UPDATE meme_tokens SET ${updateFields.join(', ')} WHERE address = ?`,
+    params
+  );
+
+  return (result.changes || 0) > 0;
+}
+
 /**
  * 删除 Meme 代币
  */
@@ -83,6 +83,52 @@ export async function updatePairReserves(
   return updatedPair;
 }
 
+/**
+ * 根据 Sync 事件更新交易对储备量
+ */
+export async function updatePairSyncReserves(
+  pairAddress: string,
+  reserve0: string,
+  reserve1: string
+): Promise<void> {
+  await executeUpdate(
+    `
+    UPDATE trading_pairs 
+    SET reserve0 = ?, reserve1 = ?, updated_at = datetime('now', 'localtime')
+    WHERE pair_address = ?
+    `,
+    [reserve0, reserve1, pairAddress]
+  );
+}
+
+/**
+ * 更新交易对 LP 总供应量
+ */
+export async function updatePairTotalSupply(
+  pairAddress: string,
+  totalSupply: string
+): Promise<void> {
+  await executeUpdate(
+    `
+    UPDATE trading_pairs 
+    SET total_supply = ?, updated_at = datetime('now', 'localtime')
+    WHERE pair_address = ?
+    `,
+    [totalSupply, pairAddress]
+  );
+}
+
+/**
+ * 获取所有交易对地址
+ */
+export async function getAllPairAddresses(): Promise<string[]> {
+  const rows = (await executeQuery(
+    "SELECT pair_address FROM trading_pairs"
+  )) as { pair_address: string }[];
+
+  return rows.map((row) => row.pair_address);
+}
+
 /**
  * 更新交易对TVL和交易量
  */
@@ -49,6 +49,76 @@ export async function createTransaction(
   );
 }
 
+/**
+ * 记录链上索引到的交易对事件（按 tx_hash + log_index 去重，重复处理时忽略）
+ */
+export async function insertIndexedTransaction(data: {
+  network: string;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  pairAddress: string;
+  userAddress: string;
+  transactionType: string;
+  amount0In?: string;
+  amount1In?: string;
+  amount0Out?: string;
+  amount1Out?: string;
+  liquidityChange?: string;
+  feeAmount?: string;
+  fee0Amount?: string;
+  fee1Amount?: string;
+  gasUsed?: number;
+  gasPrice?: string;
+  timestamp: string;
+}): Promise<void> {
+  await executeUpdate(
+    `
+    INSERT OR IGNORE INTO transactions (
+      tx_hash, log_index, network, block_number, pair_address, user_address, transaction_type,
+      amount0_in, amount1_in, amount0_out, amount1_out, liquidity_change,
+      fee_amount, fee0_amount, fee1_amount, gas_used, gas_price, status, timestamp
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'SUCCESS', ?)
+    `,
+    [
+      data.txHash,
+      data.logIndex,
+      data.network,
+      data.blockNumber,
+      data.pairAddress,
+      data.userAddress,
+      data.transactionType,
+      data.amount0In || "0",
+      data.amount1In || "0",
+      data.amount0Out || "0",
+      data.amount1Out || "0",
+      data.liquidityChange || "0",
+      data.feeAmount || "0",
+      data.fee0Amount || "0",
+      data.fee1Amount || "0",
+      data.gasUsed,
+      data.gasPrice,
+      data.timestamp,
+    ]
+  );
+}
+
+/**
+ * 删除指定网络中指定区块及之后由链上索引写入的交易记录（链重组回滚时使用）
+ */
+export async function deleteIndexedTransactionsFromBlock(
+  network: string,
+  fromBlock: number
+): Promise<void> {
+  await executeUpdate(
+    `
+    DELETE FROM transactions 
+    WHERE network = ? AND block_number >= ? AND log_index IS NOT NULL
+    `,
+    [network, fromBlock]
+  );
+}
+
 /**
  * 更新交易状态
  */
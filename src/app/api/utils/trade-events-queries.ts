@@ -1,4 +1,5 @@
 import { getDatabase } from './db-core';
+import { sumDecimals } from '../../../lib/decimal';
 
 // TradeEvent 接口定义
 export interface TradeEvent {
@@ -10,19 +11,45 @@ export interface TradeEvent {
   eth_amount: string;
   token_address?: string;
   isBuy: boolean;
-  price: string;
+  price: string; // 以 ETH 计价的成交价格
+  price_usd?: string; // 按成交时 ETH/USD 价格折算的美元价格，无法获取时为空
+  block_number?: number;
+  block_hash?: string;
+  log_index?: number;
   timestamp: string;
   created_at: string;
 }
 
-// 插入交易事件
-export async function insertTradeEvent(tradeEvent: Omit<TradeEvent, 'id' | 'created_at'>): Promise<number> {
+// 按 (network, tx_hash, log_index) 写入交易事件，已存在时用新数据覆盖
+const UPSERT_TRADE_EVENT_SQL = `INSERT INTO trade_events (
+      network, tx_hash, user_address, token_amount, eth_amount, 
+      token_address, isBuy, price, price_usd, block_number, block_hash, log_index, timestamp
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(network, tx_hash, log_index) DO UPDATE SET
+      user_address = excluded.user_address,
+      token_amount = excluded.token_amount,
+      eth_amount = excluded.eth_amount,
+      token_address = excluded.token_address,
+      isBuy = excluded.isBuy,
+      price = excluded.price,
+      price_usd = COALESCE(excluded.price_usd, trade_events.price_usd),
+      block_number = excluded.block_number,
+      block_hash = excluded.block_hash,
+      timestamp = excluded.timestamp`;
+
+// 插入交易事件（幂等），返回记录ID以及是否为首次写入
+export async function insertTradeEvent(tradeEvent: Omit<TradeEvent, 'id' | 'created_at'>): Promise<{ id: number; isNew: boolean }> {
   const db = await getDatabase();
+  const existing = await db.get(
+    'SELECT id FROM trade_events WHERE network = ? AND tx_hash = ? AND log_index IS ?',
+    [tradeEvent.network, tradeEvent.tx_hash, tradeEvent.log_index]
+  ) as { id: number } | undefined;
+
+  // 没有 log_index 的事件无法去重，每次都作为新记录写入
+  const isNew = !existing || tradeEvent.log_index === undefined || tradeEvent.log_index === null;
+
   const result = await db.run(
-    `INSERT INTO trade_events (
-      network, tx_hash, user_address, token_amount, eth_amount, 
-      token_address, isBuy, price, timestamp
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    UPSERT_TRADE_EVENT_SQL,
     [
       tradeEvent.network,
       tradeEvent.tx_hash,
@@ -32,21 +59,20 @@ export async function insertTradeEvent(tradeEvent: Omit<TradeEvent, 'id' | 'crea
       tradeEvent.token_address,
       tradeEvent.isBuy ? 1 : 0,
       tradeEvent.price,
+      tradeEvent.price_usd,
+      tradeEvent.block_number,
+      tradeEvent.block_hash,
+      tradeEvent.log_index,
       tradeEvent.timestamp
     ]
   );
-  return result.lastID as number;
+  return { id: existing && !isNew ? existing.id : result.lastID as number, isNew };
 }
 
-// 批量插入交易事件
+// 批量插入交易事件（幂等）
 export async function insertTradeEvents(tradeEvents: Omit<TradeEvent, 'id' | 'created_at'>[]): Promise<void> {
   const db = await getDatabase();
-  const stmt = await db.prepare(
-    `INSERT INTO trade_events (
-      network, tx_hash, user_address, token_amount, eth_amount, 
-      token_address, isBuy, price, timestamp
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
-  );
+  const stmt = await db.prepare(UPSERT_TRADE_EVENT_SQL);
   
   try {
     await db.exec('BEGIN TRANSACTION');
@@ -60,6 +86,10 @@ export async function insertTradeEvents(tradeEvents: Omit<TradeEvent, 'id' | 'cr
         tradeEvent.token_address,
         tradeEvent.isBuy ? 1 : 0,
         tradeEvent.price,
+        tradeEvent.price_usd,
+        tradeEvent.block_number,
+        tradeEvent.block_hash,
+        tradeEvent.log_index,
         tradeEvent.timestamp
       ]);
     }
@@ -108,6 +138,7 @@ export async function getTradeEvents(options: {
   userAddress?: string;
   tokenAddress?: string;
   isBuy?: boolean;
+  startTime?: string;
   limit?: number;
   offset?: number;
   orderBy?: 'timestamp' | 'created_at' | 'price';
@@ -138,6 +169,11 @@ export async function getTradeEvents(options: {
     params.push(options.isBuy ? 1 : 0);
   }
   
+  if (options.startTime) {
+    sql += ' AND timestamp >= ?';
+    params.push(options.startTime);
+  }
+  
   // 排序
   const orderBy = options.orderBy || 'timestamp';
   const orderDirection = options.orderDirection || 'DESC';
@@ -260,6 +296,132 @@ export async function getTradeStatistics(options: {
   };
 }
 
+// 统计代币在指定网络上、指定时间之后的成交数据，用于24小时滚动交易量
+// 成交量以十进制字符串保存，取出后用定点小数求和，避免浮点误差
+export async function getRollingTradeStats(network: string, tokenAddress: string, since: string): Promise<{
+  tradeCount: number;
+  buyCount: number;
+  sellCount: number;
+  volumeToken: string;
+  volumeEth: string;
+}> {
+  const db = await getDatabase();
+  const trades = await db.all(
+    `SELECT isBuy, token_amount, eth_amount
+    FROM trade_events
+    WHERE network = ? AND token_address = ? AND timestamp >= ?`,
+    [network, tokenAddress, since]
+  ) as Pick<TradeEvent, 'isBuy' | 'token_amount' | 'eth_amount'>[];
+
+  const buyCount = trades.filter(trade => trade.isBuy).length;
+
+  return {
+    tradeCount: trades.length,
+    buyCount,
+    sellCount: trades.length - buyCount,
+    volumeToken: sumDecimals(trades.map(trade => trade.token_amount)),
+    volumeEth: sumDecimals(trades.map(trade => trade.eth_amount))
+  };
+}
+
+// 获取指定时间之后有成交的代币及其所在网络
+export async function getTradedTokens(since: string): Promise<{ network: string; tokenAddress: string }[]> {
+  const db = await getDatabase();
+  const rows = await db.all(
+    `SELECT DISTINCT network, token_address FROM trade_events
+     WHERE token_address IS NOT NULL AND timestamp >= ?`,
+    [since]
+  ) as { network: string; token_address: string }[];
+  return rows.map(row => ({ network: row.network, tokenAddress: row.token_address }));
+}
+
+// 按链上顺序（区块号、日志索引）获取交易事件，可按代币和时间范围筛选，用于重放交易重建衍生数据
+export async function getTradeEventsInBlockOrder(options: {
+  network: string;
+  tokenAddress?: string;
+  startTime?: string; // ISO 时间，包含
+  endTime?: string; // ISO 时间，不包含
+}): Promise<TradeEvent[]> {
+  const db = await getDatabase();
+
+  let sql = 'SELECT * FROM trade_events WHERE network = ?';
+  const params: unknown[] = [options.network];
+
+  // 地址大小写不敏感（事件中为校验和格式）
+  if (options.tokenAddress) {
+    sql += ' AND token_address = ? COLLATE NOCASE';
+    params.push(options.tokenAddress);
+  }
+
+  if (options.startTime) {
+    sql += ' AND timestamp >= ?';
+    params.push(options.startTime);
+  }
+
+  if (options.endTime) {
+    sql += ' AND timestamp < ?';
+    params.push(options.endTime);
+  }
+
+  sql += ' ORDER BY block_number ASC, log_index ASC, id ASC';
+
+  const rows = await db.all(sql, params) as TradeEvent[];
+  return rows.map(row => ({
+    ...row,
+    isBuy: Boolean(row.isBuy)
+  }));
+}
+
+// 统计代币在时间范围内参与交易的独立地址数，用于K线的独立交易地址数
+export async function countUniqueTraders(options: {
+  network: string;
+  tokenAddress: string;
+  startTime: string; // ISO 时间，包含
+  endTime: string; // ISO 时间，不包含
+}): Promise<number> {
+  const db = await getDatabase();
+  const row = await db.get(
+    `SELECT COUNT(DISTINCT LOWER(user_address)) as count FROM trade_events
+     WHERE network = ? AND token_address = ? AND timestamp >= ? AND timestamp < ?`,
+    [options.network, options.tokenAddress, options.startTime, options.endTime]
+  ) as { count: number };
+  return row.count;
+}
+
+// 获取代币在时间范围内的成交地址和时间，按时间升序，用于按自定义周期统计独立交易地址数
+export async function getTradersInTimeRange(options: {
+  network: string;
+  tokenAddress: string;
+  startTime: string; // ISO 时间，包含
+  endTime: string; // ISO 时间，不包含
+}): Promise<{ user_address: string; timestamp: string }[]> {
+  const db = await getDatabase();
+  return await db.all(
+    `SELECT LOWER(user_address) as user_address, timestamp FROM trade_events
+     WHERE network = ? AND token_address = ? AND timestamp >= ? AND timestamp < ?
+     ORDER BY timestamp ASC`,
+    [options.network, options.tokenAddress, options.startTime, options.endTime]
+  ) as { user_address: string; timestamp: string }[];
+}
+
+// 代币在指定事件之后是否还有更新的成交（按区块和日志顺序），用于避免补处理旧交易时覆盖最新价格
+export async function hasLaterTradeEvent(
+  network: string,
+  tokenAddress: string,
+  blockNumber: number,
+  logIndex: number
+): Promise<boolean> {
+  const db = await getDatabase();
+  const row = await db.get(
+    `SELECT 1 FROM trade_events
+     WHERE network = ? AND token_address = ?
+       AND (block_number > ? OR (block_number = ? AND log_index > ?))
+     LIMIT 1`,
+    [network, tokenAddress, blockNumber, blockNumber, logIndex]
+  );
+  return !!row;
+}
+
 // 更新交易事件
 export async function updateTradeEvent(id: number, updates: Partial<Omit<TradeEvent, 'id' | 'created_at'>>): Promise<void> {
   const db = await getDatabase();
@@ -332,6 +494,39 @@ export async function deleteTradeEventsByCondition(options: {
   return result.changes || 0;
 }
 
+// 获取指定区块范围内已入库交易所在的区块及其哈希（按区块号倒序，用于链重组检测）
+export async function getTradeEventBlocks(network: string, fromBlock: number, toBlock: number): Promise<{
+  block_number: number;
+  block_hash: string;
+}[]> {
+  const db = await getDatabase();
+  return await db.all(
+    `SELECT DISTINCT block_number, block_hash FROM trade_events
+     WHERE network = ? AND block_number >= ? AND block_number <= ? AND block_hash IS NOT NULL
+     ORDER BY block_number DESC`,
+    [network, fromBlock, toBlock]
+  ) as { block_number: number; block_hash: string }[];
+}
+
+// 删除指定区块及之后的交易事件（链重组回滚），返回被删除的交易事件
+export async function deleteTradeEventsFromBlock(network: string, fromBlock: number): Promise<TradeEvent[]> {
+  const db = await getDatabase();
+  const rows = await db.all(
+    'SELECT * FROM trade_events WHERE network = ? AND block_number >= ? ORDER BY block_number ASC, log_index ASC',
+    [network, fromBlock]
+  ) as TradeEvent[];
+  
+  await db.run(
+    'DELETE FROM trade_events WHERE network = ? AND block_number >= ?',
+    [network, fromBlock]
+  );
+  
+  return rows.map(row => ({
+    ...row,
+    isBuy: Boolean(row.isBuy)
+  }));
+}
+
 // 获取最新的交易事件
 export async function getLatestTradeEvents(limit: number = 10): Promise<TradeEvent[]> {
   const db = await getDatabase();
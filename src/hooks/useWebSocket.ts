@@ -18,7 +18,7 @@ export interface WSMessage {
 export interface Subscription {
   network: string;
   pairAddress: string;
-  intervals: string[]; // ['30s', '1m', '15m']
+  intervals: string[]; // ['30s', '1m', '15m', '1h', '4h', '1d', '1w']
 }
 
 export interface KlineData {
@@ -31,7 +31,11 @@ export interface KlineData {
   low_price: string;
   close_price: string;
   volume: string;
+  quote_volume?: string; // 以 ETH 计的成交额
+  buy_volume?: string;
+  sell_volume?: string;
   trade_count?: number;
+  unique_traders?: number;
   is_complete?: boolean;
 }
 
@@ -237,7 +241,11 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
                     low_price: kline.low_price,
                     close_price: kline.close_price,
                     volume: kline.volume,
+                    quote_volume: kline.quote_volume,
+                    buy_volume: kline.buy_volume,
+                    sell_volume: kline.sell_volume,
                     trade_count: kline.trade_count,
+                    unique_traders: kline.unique_traders,
                     is_complete: kline.is_complete
                   };
                   onKlineUpdate?.(klineData);
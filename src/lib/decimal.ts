@@ -0,0 +1,112 @@
+// 定点小数运算：数值以放大 10^18 倍的 bigint 参与计算，与 wei 精度一致，避免浮点误差
+// 价格、成交量等以十进制字符串保存和传输，只在需要计算时转换为定点数
+
+// 保留的小数位数，超出部分截断
+export const DECIMAL_PLACES = 18;
+
+const SCALE = BigInt('1' + '0'.repeat(DECIMAL_PLACES));
+const ZERO = BigInt(0);
+
+// 支持普通小数和科学计数法（如 Number.toString() 产生的 1.2e-8）
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+export type DecimalValue = string | number;
+
+// 把十进制字符串或数字解析为定点数
+export function parseDecimal(value: DecimalValue): bigint {
+  const text = typeof value === 'number' ? value.toString() : value.trim();
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid decimal: ${value}`);
+  }
+
+  const [, sign, integerPart = '', fractionPart = '', exponentPart] = match;
+  const exponent = exponentPart ? parseInt(exponentPart, 10) : 0;
+
+  // 把小数点右移 DECIMAL_PLACES + exponent 位，得到放大后的整数部分
+  const digits = integerPart + fractionPart;
+  const pointPosition = integerPart.length + exponent + DECIMAL_PLACES;
+  let scaled: bigint;
+  if (pointPosition <= 0) {
+    scaled = ZERO;
+  } else if (pointPosition >= digits.length) {
+    scaled = BigInt(digits + '0'.repeat(pointPosition - digits.length));
+  } else {
+    scaled = BigInt(digits.slice(0, pointPosition));
+  }
+
+  return sign === '-' ? -scaled : scaled;
+}
+
+// 把定点数格式化为十进制字符串，去掉末尾的 0
+export function formatDecimal(value: bigint): string {
+  const negative = value < ZERO;
+  const absolute = negative ? -value : value;
+  const integerPart = (absolute / SCALE).toString();
+  const fractionPart = (absolute % SCALE).toString().padStart(DECIMAL_PLACES, '0').replace(/0+$/, '');
+
+  const text = fractionPart ? `${integerPart}.${fractionPart}` : integerPart;
+  return negative ? `-${text}` : text;
+}
+
+// 是否为可解析的十进制数
+export function isValidDecimal(value: DecimalValue): boolean {
+  try {
+    parseDecimal(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 规范化为不带科学计数法的十进制字符串
+export function normalizeDecimal(value: DecimalValue): string {
+  return formatDecimal(parseDecimal(value));
+}
+
+// 比较两个数的大小，返回 -1、0 或 1
+export function compareDecimals(a: DecimalValue, b: DecimalValue): number {
+  const difference = parseDecimal(a) - parseDecimal(b);
+  if (difference > ZERO) return 1;
+  if (difference < ZERO) return -1;
+  return 0;
+}
+
+// 较大值，返回原始值
+export function maxDecimal<T extends DecimalValue>(a: T, b: T): T {
+  return compareDecimals(a, b) >= 0 ? a : b;
+}
+
+// 较小值，返回原始值
+export function minDecimal<T extends DecimalValue>(a: T, b: T): T {
+  return compareDecimals(a, b) <= 0 ? a : b;
+}
+
+// a + b
+export function addDecimals(a: DecimalValue, b: DecimalValue): string {
+  return formatDecimal(parseDecimal(a) + parseDecimal(b));
+}
+
+// 求和，空数组返回 0
+export function sumDecimals(values: DecimalValue[]): string {
+  return formatDecimal(values.reduce<bigint>((sum, value) => sum + parseDecimal(value), ZERO));
+}
+
+// a - b
+export function subtractDecimals(a: DecimalValue, b: DecimalValue): string {
+  return formatDecimal(parseDecimal(a) - parseDecimal(b));
+}
+
+// a * b，超出精度的部分截断
+export function multiplyDecimals(a: DecimalValue, b: DecimalValue): string {
+  return formatDecimal((parseDecimal(a) * parseDecimal(b)) / SCALE);
+}
+
+// a / b，超出精度的部分截断；除数为 0 时抛出错误
+export function divideDecimals(a: DecimalValue, b: DecimalValue): string {
+  const divisor = parseDecimal(b);
+  if (divisor === ZERO) {
+    throw new Error('Division by zero');
+  }
+  return formatDecimal((parseDecimal(a) * SCALE) / divisor);
+}
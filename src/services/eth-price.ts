@@ -0,0 +1,201 @@
+import { erc20Abi, formatUnits, parseAbi, zeroAddress } from 'viem'
+import { sepolia, foundry } from 'viem/chains'
+import kekeswapFactoryAbi from '../abi/KekeswapFactory.json'
+import kekeswapPairAbi from '../abi/KekeswapPair.json'
+import sepoliaAddresses from '../config/address/sepolia.json'
+import foundryAddresses from '../config/address/foundry.json'
+import type { ListenerClient } from './trade-listener'
+
+const CHAINLINK_ABI = parseAbi([
+  'function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  'function decimals() external view returns (uint8)'
+])
+
+// 各网络的 ETH/USD 价格来源：优先 Chainlink 喂价，不可用时使用 Kekeswap 的 WETH/USDC 交易对储备量
+const ETH_USD_SOURCES: Record<number, {
+  chainlinkFeed?: string,
+  kekeswapFactory: string,
+  weth: string,
+  usdc: string
+}> = {
+  [sepolia.id]: {
+    chainlinkFeed: process.env.SEPOLIA_CHAINLINK_ETH_USD_FEED || '0x694AA1769357215DE4FAC081bf1f309aDC325306',
+    kekeswapFactory: sepoliaAddresses.kekeswapFactoryAddress,
+    weth: sepoliaAddresses.wethAddress,
+    usdc: sepoliaAddresses.mockUsdcAddress
+  },
+  [foundry.id]: {
+    chainlinkFeed: process.env.FOUNDRY_CHAINLINK_ETH_USD_FEED,
+    kekeswapFactory: foundryAddresses.kekeswapFactoryAddress,
+    weth: foundryAddresses.wethAddress,
+    usdc: foundryAddresses.mockUsdcAddress
+  }
+}
+
+// ETH/USD 价格缓存时长
+const ETH_PRICE_CACHE_MS = Number(process.env.ETH_PRICE_CACHE_MS || '60000')
+
+// Chainlink 喂价的最大允许延迟（秒），超过后视为过期并使用交易对价格
+const CHAINLINK_MAX_AGE_SECONDS = Number(process.env.CHAINLINK_MAX_AGE_SECONDS || '86400')
+
+// ETH/USD 价格缓存，键为链ID
+const ethPriceCache = new Map<number, { price: number, source: 'chainlink' | 'pair', fetchedAt: number }>()
+
+// 按区块读取的 ETH/USD 价格缓存（每条链只保留最近一个区块），同一区块内的多笔交易共用
+const blockPriceCache = new Map<number, { blockNumber: bigint, price: number | null }>()
+
+// WETH/USDC 交易对地址和 USDC 精度缓存，键为链ID
+const wethUsdcPairs = new Map<number, { pair: `0x${string}`, usdcDecimals: number }>()
+
+// 读取价格的区块及其时间（毫秒），不指定时读取最新状态
+export type EthPriceBlock = { blockNumber: bigint, timestamp: number }
+
+// 从 Chainlink 读取 ETH/USD 价格，喂价无效或相对读取时间过期时返回 null
+const getChainlinkEthPrice = async (client: ListenerClient, feed: `0x${string}`, block?: EthPriceBlock): Promise<number | null> => {
+  const blockNumber = block?.blockNumber
+  const [roundData, decimals] = await Promise.all([
+    client.readContract({ address: feed, abi: CHAINLINK_ABI, functionName: 'latestRoundData', blockNumber }),
+    client.readContract({ address: feed, abi: CHAINLINK_ABI, functionName: 'decimals', blockNumber })
+  ])
+  const [, answer, , updatedAt] = roundData
+
+  if (answer <= BigInt(0)) {
+    console.warn(`Invalid Chainlink ETH/USD answer from ${feed}:`, answer.toString())
+    return null
+  }
+
+  const age = (block?.timestamp ?? Date.now()) / 1000 - Number(updatedAt)
+  if (age > CHAINLINK_MAX_AGE_SECONDS) {
+    console.warn(`Chainlink ETH/USD feed ${feed} is stale (updated ${Math.round(age)}s ago)`)
+    return null
+  }
+
+  return Number(formatUnits(answer, decimals))
+}
+
+// 从 Kekeswap 的 WETH/USDC 交易对储备量计算 ETH/USD 价格，交易对不存在或没有流动性时返回 null
+const getPairEthPrice = async (chainId: number, client: ListenerClient, blockNumber?: bigint): Promise<number | null> => {
+  const source = ETH_USD_SOURCES[chainId]
+  if (!source || source.usdc === zeroAddress || source.weth === zeroAddress) {
+    return null
+  }
+
+  let pairInfo = wethUsdcPairs.get(chainId)
+  if (!pairInfo) {
+    const pair = await client.readContract({
+      address: source.kekeswapFactory as `0x${string}`,
+      abi: kekeswapFactoryAbi,
+      functionName: 'getPair',
+      args: [source.weth, source.usdc]
+    }) as `0x${string}`
+    if (pair === zeroAddress) {
+      return null
+    }
+
+    const usdcDecimals = await client.readContract({
+      address: source.usdc as `0x${string}`,
+      abi: erc20Abi,
+      functionName: 'decimals'
+    })
+    pairInfo = { pair, usdcDecimals }
+    wethUsdcPairs.set(chainId, pairInfo)
+  }
+
+  const [token0, reserves] = await Promise.all([
+    client.readContract({ address: pairInfo.pair, abi: kekeswapPairAbi, functionName: 'token0', blockNumber }) as Promise<string>,
+    client.readContract({ address: pairInfo.pair, abi: kekeswapPairAbi, functionName: 'getReserves', blockNumber }) as Promise<[bigint, bigint, number]>
+  ])
+  const wethIsToken0 = token0.toLowerCase() === source.weth.toLowerCase()
+  const wethReserve = wethIsToken0 ? reserves[0] : reserves[1]
+  const usdcReserve = wethIsToken0 ? reserves[1] : reserves[0]
+
+  if (wethReserve === BigInt(0) || usdcReserve === BigInt(0)) {
+    return null
+  }
+
+  // WETH 为 18 位精度
+  return Number(formatUnits(usdcReserve, pairInfo.usdcDecimals)) / Number(formatUnits(wethReserve, 18))
+}
+
+/**
+ * 获取指定区块时的 ETH/USD 价格，用于折算该区块内成交的美元价格（回补历史交易时不能使用当前价格）
+ * 优先使用 Chainlink latestRoundData，失败时回退到 WETH/USDC 交易对，都不可用时返回 null
+ */
+const getBlockEthUsdPrice = async (chainId: number, client: ListenerClient, block: EthPriceBlock): Promise<number | null> => {
+  const cached = blockPriceCache.get(chainId)
+  if (cached && cached.blockNumber === block.blockNumber) {
+    return cached.price
+  }
+
+  let price: number | null = null
+  const feed = ETH_USD_SOURCES[chainId]?.chainlinkFeed
+  if (feed) {
+    try {
+      price = await getChainlinkEthPrice(client, feed as `0x${string}`, block)
+    } catch (error) {
+      console.warn(`Failed to read Chainlink ETH/USD price for chain ${chainId} at block ${block.blockNumber}:`, error)
+    }
+  }
+
+  if (price === null) {
+    try {
+      price = await getPairEthPrice(chainId, client, block.blockNumber)
+    } catch (error) {
+      console.warn(`Failed to read WETH/USDC pair price for chain ${chainId} at block ${block.blockNumber}:`, error)
+    }
+  }
+
+  if (price === null) {
+    console.warn(`No ETH/USD price available for chain ${chainId} at block ${block.blockNumber}`)
+  }
+  blockPriceCache.set(chainId, { blockNumber: block.blockNumber, price })
+  return price
+}
+
+/**
+ * 获取指定链的 ETH/USD 价格
+ * 传入 block 时读取该区块的链上状态；否则读取当前价格（带缓存）
+ * 优先使用 Chainlink latestRoundData，失败时回退到 WETH/USDC 交易对，都不可用时返回 null
+ */
+export async function getEthUsdPrice(chainId: number, client: ListenerClient, block?: EthPriceBlock): Promise<number | null> {
+  if (block) {
+    return getBlockEthUsdPrice(chainId, client, block)
+  }
+
+  const cached = ethPriceCache.get(chainId)
+  if (cached && Date.now() - cached.fetchedAt < ETH_PRICE_CACHE_MS) {
+    return cached.price
+  }
+
+  const feed = ETH_USD_SOURCES[chainId]?.chainlinkFeed
+  if (feed) {
+    try {
+      const price = await getChainlinkEthPrice(client, feed as `0x${string}`)
+      if (price !== null) {
+        ethPriceCache.set(chainId, { price, source: 'chainlink', fetchedAt: Date.now() })
+        return price
+      }
+    } catch (error) {
+      console.warn(`Failed to read Chainlink ETH/USD price for chain ${chainId}:`, error)
+    }
+  }
+
+  try {
+    const price = await getPairEthPrice(chainId, client)
+    if (price !== null) {
+      ethPriceCache.set(chainId, { price, source: 'pair', fetchedAt: Date.now() })
+      return price
+    }
+  } catch (error) {
+    console.warn(`Failed to read WETH/USDC pair price for chain ${chainId}:`, error)
+  }
+
+  // 两个来源都不可用时沿用上一次的价格
+  if (cached) {
+    console.warn(`Using last known ETH/USD price for chain ${chainId} from ${cached.source}: ${cached.price}`)
+    return cached.price
+  }
+
+  console.warn(`No ETH/USD price available for chain ${chainId}`)
+  return null
+}
@@ -0,0 +1,84 @@
+import type { TradeEvent } from '../app/api/utils/trade-events-queries'
+import type { ListenerClient } from './trade-listener'
+
+// 事件总线上的事件及其数据
+export interface EventBusEvents {
+  // Trade 事件已入库（重试死信时会再次发布，订阅者需要保证幂等）
+  'trade.ingested': {
+    tradeEvent: Omit<TradeEvent, 'id' | 'created_at'>
+    poolAddress: string
+    client: ListenerClient
+    isRetry: boolean // 重试死信时为 true，此前的处理中部分订阅者可能已经成功
+  }
+  // 交易对的K线已更新
+  'kline.updated': {
+    network: string
+    pairAddress: string
+  }
+  // 代币的价格、市值或24小时统计已更新
+  'token.stats.changed': {
+    network: string
+    tokenAddress: string
+  }
+  // 代币完成联合曲线募集（Pool 合约的 Complete 事件）
+  'pool.graduated': {
+    network: string
+    tokenAddress: string
+    txHash: string
+    timestamp: string
+  }
+}
+
+export type EventBusEventName = keyof EventBusEvents
+
+export type EventBusHandler<E extends EventBusEventName> = (payload: EventBusEvents[E]) => void | Promise<void>
+
+/**
+ * 进程内的类型化事件总线
+ * publish 并发执行所有订阅者并等待完成，任一订阅者失败时在全部执行完后抛出错误，
+ * 由发布方决定是否重试（如 trade.ingested 失败时写入死信队列）
+ */
+class EventBus {
+  private handlers = new Map<EventBusEventName, Set<EventBusHandler<never>>>()
+
+  // 订阅事件，返回取消订阅函数
+  subscribe<E extends EventBusEventName>(event: E, handler: EventBusHandler<E>): () => void {
+    let handlers = this.handlers.get(event)
+    if (!handlers) {
+      handlers = new Set()
+      this.handlers.set(event, handlers)
+    }
+    handlers.add(handler as EventBusHandler<never>)
+
+    return () => {
+      handlers.delete(handler as EventBusHandler<never>)
+    }
+  }
+
+  // 发布事件
+  async publish<E extends EventBusEventName>(event: E, payload: EventBusEvents[E]): Promise<void> {
+    const handlers = [...(this.handlers.get(event) || [])] as EventBusHandler<E>[]
+    const results = await Promise.allSettled(handlers.map(async (handler) => handler(payload)))
+
+    const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+    if (failures.length === 0) return
+
+    for (const failure of failures) {
+      console.error(`Event handler for ${event} failed:`, failure.reason)
+    }
+    if (failures.length === 1) {
+      throw failures[0].reason
+    }
+    throw new Error(`${failures.length} event handlers for ${event} failed: ${failures
+      .map((failure) => (failure.reason instanceof Error ? failure.reason.message : String(failure.reason)))
+      .join('; ')}`)
+  }
+
+  // 获取事件的订阅者数量
+  listenerCount(event: EventBusEventName): number {
+    return this.handlers.get(event)?.size || 0
+  }
+}
+
+// 导出单例实例
+export const eventBus = new EventBus()
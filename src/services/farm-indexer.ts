@@ -0,0 +1,70 @@
+import {
+  insertFarmEvent,
+  applyFarmStakeChange,
+  deleteFarmEventsFromBlock,
+  recomputeFarmStake,
+  type FarmEventType
+} from '../app/api/utils/farm-queries'
+import type { IndexedEvent } from './trade-listener'
+
+// Master合约事件名到农场事件类型的映射
+const FARM_EVENT_TYPES: Record<string, FarmEventType> = {
+  Deposit: 'DEPOSIT',
+  Withdraw: 'WITHDRAW',
+  EmergencyWithdraw: 'EMERGENCY_WITHDRAW'
+}
+
+// 是否为需要记录的Master农场事件
+export const isFarmEvent = (eventName?: string): boolean => {
+  return !!eventName && eventName in FARM_EVENT_TYPES
+}
+
+// 处理 Master 的 Deposit、Withdraw、EmergencyWithdraw 事件
+export async function handleFarmEvent(event: IndexedEvent) {
+  const eventType = FARM_EVENT_TYPES[event.eventName || '']
+  if (!eventType || !event.transactionHash || event.logIndex === null || event.blockNumber === null) return
+
+  const { user, pid, amount } = event.args as { user: string, pid: bigint, amount: bigint }
+  const network = event.chainId.toString()
+
+  try {
+    const inserted = await insertFarmEvent({
+      network,
+      tx_hash: event.transactionHash,
+      log_index: event.logIndex,
+      block_number: Number(event.blockNumber),
+      block_hash: event.blockHash || undefined,
+      user_address: user,
+      pid: Number(pid),
+      event_type: eventType,
+      amount: amount.toString(),
+      timestamp: new Date(event.blockTimestamp).toISOString()
+    })
+
+    // 重复处理同一事件时不重复累计质押数量
+    if (inserted) {
+      await applyFarmStakeChange(network, Number(pid), user, eventType, amount.toString())
+    }
+  } catch (error) {
+    console.error(`Error saving farm ${event.eventName} event:`, error)
+  }
+}
+
+// 按农场事件时间线重算用户的质押数量（事件不是按链上顺序入库时使用）
+export async function recomputeFarmStakes(network: string, stakes: { pid: number, user_address: string }[]) {
+  const affectedStakes = new Set(stakes.map((stake) => `${stake.pid}:${stake.user_address.toLowerCase()}`))
+  for (const stakeKey of affectedStakes) {
+    const [pid, userAddress] = stakeKey.split(':')
+    try {
+      await recomputeFarmStake(network, Number(pid), userAddress)
+    } catch (error) {
+      console.error(`Error recomputing farm stake ${stakeKey}:`, error)
+    }
+  }
+}
+
+// 链重组回滚：删除孤块中的农场事件，并重算受影响用户的质押数量
+export async function rollbackFarmEvents(network: string, fromBlock: bigint) {
+  const orphanedEvents = await deleteFarmEventsFromBlock(network, Number(fromBlock))
+  await recomputeFarmStakes(network, orphanedEvents)
+}
@@ -0,0 +1,109 @@
+import { zeroAddress } from 'viem'
+import {
+  insertTokenTransfer,
+  adjustTokenHolderBalance,
+  deleteTokenTransfersFromBlock,
+  recomputeTokenHolderBalance,
+  type TokenHolderLabel
+} from '../app/api/utils/holder-queries'
+import { getAllMemeTokenAddresses } from '../app/api/utils/meme-token-queries'
+import { isIndexedPairAddress } from './pair-indexer'
+import type { IndexedEvent } from './trade-listener'
+
+// 已登记的 Meme 代币地址映射：小写地址 -> 数据库中保存的地址
+const knownMemeTokens = new Map<string, string>()
+let knownMemeTokensLoaded = false
+
+// 从数据库加载已登记的 Meme 代币
+const loadKnownMemeTokens = async () => {
+  if (knownMemeTokensLoaded) return
+  const tokenAddresses = await getAllMemeTokenAddresses()
+  for (const tokenAddress of tokenAddresses) {
+    knownMemeTokens.set(tokenAddress.toLowerCase(), tokenAddress)
+  }
+  knownMemeTokensLoaded = true
+}
+
+// 获取需要监听 Transfer 事件的 Meme 代币地址
+export const getIndexedMemeTokenAddresses = async (): Promise<`0x${string}`[]> => {
+  await loadKnownMemeTokens()
+  return Array.from(knownMemeTokens.values()) as `0x${string}`[]
+}
+
+// 是否为已登记的 Meme 代币地址
+export const isIndexedMemeToken = async (address: string): Promise<boolean> => {
+  await loadKnownMemeTokens()
+  return knownMemeTokens.has(address.toLowerCase())
+}
+
+// 登记新部署的 Meme 代币，返回是否为新代币
+export const registerIndexedMemeToken = async (tokenAddress: `0x${string}`): Promise<boolean> => {
+  await loadKnownMemeTokens()
+  if (knownMemeTokens.has(tokenAddress.toLowerCase())) return false
+  knownMemeTokens.set(tokenAddress.toLowerCase(), tokenAddress)
+  return true
+}
+
+// 持有人地址标签：Pool 合约或已登记的交易对
+const getHolderLabel = async (holderAddress: string, poolAddress: string): Promise<TokenHolderLabel | null> => {
+  if (holderAddress.toLowerCase() === poolAddress.toLowerCase()) return 'pool'
+  if (await isIndexedPairAddress(holderAddress)) return 'pair'
+  return null
+}
+
+// 处理 MemeToken 的 Transfer 事件，更新转出和转入地址的余额（铸造和销毁不计入零地址）
+export async function handleTokenTransfer(event: IndexedEvent, poolAddress: string) {
+  if (!event.transactionHash || event.logIndex === null || event.blockNumber === null) return
+
+  const { from, to, value } = event.args as { from: string, to: string, value: bigint }
+  const network = event.chainId.toString()
+  const blockNumber = Number(event.blockNumber)
+
+  try {
+    const inserted = await insertTokenTransfer({
+      network,
+      tx_hash: event.transactionHash,
+      log_index: event.logIndex,
+      block_number: blockNumber,
+      block_hash: event.blockHash || undefined,
+      token_address: event.address,
+      from_address: from,
+      to_address: to,
+      value: value.toString(),
+      timestamp: new Date(event.blockTimestamp).toISOString()
+    })
+
+    // 重复处理同一事件时不重复累计余额
+    if (!inserted || value === BigInt(0)) return
+
+    if (from.toLowerCase() !== zeroAddress) {
+      await adjustTokenHolderBalance(network, event.address, from, -value, blockNumber, await getHolderLabel(from, poolAddress))
+    }
+    if (to.toLowerCase() !== zeroAddress) {
+      await adjustTokenHolderBalance(network, event.address, to, value, blockNumber, await getHolderLabel(to, poolAddress))
+    }
+  } catch (error) {
+    console.error(`Error saving token transfer ${event.transactionHash}:${event.logIndex}:`, error)
+  }
+}
+
+// 链重组回滚：删除孤块中的 Transfer 事件，并重算受影响地址的余额
+export async function rollbackTokenTransfers(network: string, poolAddress: string, fromBlock: bigint) {
+  const orphanedTransfers = await deleteTokenTransfersFromBlock(network, Number(fromBlock))
+
+  const affectedHolders = new Set<string>()
+  for (const transfer of orphanedTransfers) {
+    for (const holder of [transfer.from_address, transfer.to_address]) {
+      if (holder !== zeroAddress) affectedHolders.add(`${transfer.token_address}:${holder}`)
+    }
+  }
+
+  for (const holderKey of affectedHolders) {
+    const [tokenAddress, holderAddress] = holderKey.split(':')
+    try {
+      await recomputeTokenHolderBalance(network, tokenAddress, holderAddress, await getHolderLabel(holderAddress, poolAddress))
+    } catch (error) {
+      console.error(`Error recomputing token holder ${holderKey} after reorg:`, error)
+    }
+  }
+}
@@ -1,18 +1,53 @@
-import { getLatestKline, upsertKline } from '../app/api/utils/klines-queries';
-import { broadcastKlineUpdate } from './websocket-server';
+import {
+  deleteKlinesByCondition,
+  deleteKlineTrades,
+  getIncompleteKlines,
+  getIntervalMilliseconds,
+  getKlineByTimestamp,
+  getKlinePeriodStart,
+  getKlinesInRange,
+  getLatestKline,
+  markKlineTradeApplied,
+  mergeKlines,
+  unmarkKlineTradeApplied,
+  upsertKline,
+  type Kline,
+  type KlineInput,
+  type KlineInterval,
+  type KlineTradeKey
+} from '../app/api/utils/klines-queries';
+import { countUniqueTraders, getTradersInTimeRange } from '../app/api/utils/trade-events-queries';
+import { addDecimals, compareDecimals } from '../lib/decimal';
+import { eventBus } from './event-bus';
 
-// K线时间间隔类型
-export type KlineInterval = '30s' | '1m' | '15m';
+export type { KlineInterval };
 
 // 交易数据接口
 export interface TradeData {
   amount: string;
+  quoteAmount: string; // 以 ETH 计的成交额
+  isBuy: boolean;
   price: string;
   address: string;
   network: string;
   timestamp?: number;
+  txHash?: string; // 交易哈希和日志索引用于识别已处理过的交易
+  logIndex?: number;
 }
 
+// 由成交直接聚合的K线周期，其中 1m 为基础周期
+const TRADE_INTERVALS: KlineInterval[] = ['30s', '1m'];
+const BASE_INTERVAL: KlineInterval = '1m';
+
+// 由基础K线逐级汇总的周期及其来源周期，按从短到长的顺序汇总
+const ROLLUP_INTERVALS: { interval: KlineInterval; source: KlineInterval }[] = [
+  { interval: '15m', source: '1m' },
+  { interval: '1h', source: '15m' },
+  { interval: '4h', source: '1h' },
+  { interval: '1d', source: '4h' },
+  { interval: '1w', source: '1d' }
+];
+
 // K线数据接口
 export interface KlineData {
   network: string;
@@ -23,62 +58,113 @@ export interface KlineData {
   high_price: string;
   low_price: string;
   close_price: string;
-  volume: string;
+  volume: string; // 以代币计的成交量
+  quote_volume: string; // 以 ETH 计的成交额
+  buy_volume: string;
+  sell_volume: string;
   trade_count: number;
+  unique_traders: number; // 写入数据库时按成交记录统计
   is_complete: boolean;
 }
 
+// 转换为写入数据库的K线
+function toKlineInput(kline: KlineData): KlineInput {
+  return {
+    network: kline.network,
+    pair_address: kline.pair_address,
+    interval_type: kline.interval_type,
+    timestamp: kline.timestamp.toString(),
+    open: kline.open_price,
+    high: kline.high_price,
+    low: kline.low_price,
+    close: kline.close_price,
+    volume: kline.volume,
+    quote_volume: kline.quote_volume,
+    buy_volume: kline.buy_volume,
+    sell_volume: kline.sell_volume,
+    trade_count: kline.trade_count,
+    unique_traders: kline.unique_traders,
+    is_complete: kline.is_complete
+  };
+}
+
+// 按成交记录统计K线周期内的独立交易地址数，各周期的数量无法由更短周期相加得到
+async function countKlineTraders(kline: KlineData): Promise<number> {
+  return await countUniqueTraders({
+    network: kline.network,
+    tokenAddress: kline.pair_address,
+    startTime: new Date(kline.timestamp).toISOString(),
+    endTime: new Date(kline.timestamp + getIntervalMilliseconds(kline.interval_type)).toISOString()
+  });
+}
+
+// 获取交易对在 [startTime, endTime) 内成交的交易地址（小写，可能重复）
+async function getTraderAddresses(network: string, pairAddress: string, startTime: number, endTime: number): Promise<string[]> {
+  const trades = await getTradersInTimeRange({
+    network,
+    tokenAddress: pairAddress,
+    startTime: new Date(startTime).toISOString(),
+    endTime: new Date(endTime).toISOString()
+  });
+  return trades.map(trade => trade.user_address);
+}
+
+// 把同一周期内按时间升序排列的来源K线汇总为一根K线，忽略还没有价格的空K线
+function aggregateKlines(
+  network: string,
+  pairAddress: string,
+  interval: KlineInterval,
+  timestamp: number,
+  sourceKlines: Kline[]
+): KlineData | null {
+  const merged = mergeKlines(sourceKlines);
+  if (!merged) {
+    return null;
+  }
+
+  return {
+    network,
+    pair_address: pairAddress,
+    interval_type: interval,
+    timestamp,
+    open_price: merged.open,
+    high_price: merged.high,
+    low_price: merged.low,
+    close_price: merged.close,
+    volume: merged.volume,
+    quote_volume: merged.quote_volume,
+    buy_volume: merged.buy_volume,
+    sell_volume: merged.sell_volume,
+    trade_count: merged.trade_count,
+    unique_traders: 0,
+    is_complete: false
+  };
+}
+
 // 内存中的K线缓存
 class KlineCache {
   private cache: Map<string, KlineData> = new Map();
   private timers: Map<string, NodeJS.Timeout> = new Map();
+  private completionListener: ((kline: KlineData) => Promise<void>) | null = null;
+
+  // 设置K线完成并持久化后的回调
+  onKlineCompleted(listener: (kline: KlineData) => Promise<void>): void {
+    this.completionListener = listener;
+  }
 
   // 生成缓存键
   private getCacheKey(network: string, pairAddress: string, interval: KlineInterval, timestamp: number): string {
     return `${network}:${pairAddress}:${interval}:${timestamp}`;
   }
 
-  // 获取K线周期的开始时间戳
-  private getKlinePeriodStart(timestamp: number, interval: KlineInterval): number {
-    const date = new Date(timestamp);
-    const seconds = date.getSeconds();
-    const minutes = date.getMinutes();
-    const hours = date.getHours();
-    
-    switch (interval) {
-      case '30s':
-        // 30秒周期：00:00:00-00:00:30, 00:00:30-00:01:00
-        const period30s = Math.floor(seconds / 30) * 30;
-        return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes, period30s).getTime();
-      
-      case '1m':
-        // 1分钟周期：00:00:00-00:01:00, 00:01:00-00:02:00
-        return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes, 0).getTime();
-      
-      case '15m':
-        // 15分钟周期：00:00:00-00:15:00, 00:15:00-00:30:00
-        const period15m = Math.floor(minutes / 15) * 15;
-        return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, period15m, 0).getTime();
-      
-      default:
-        throw new Error(`Unsupported interval: ${interval}`);
-    }
+  // 获取K线周期的开始时间戳（按 UTC 对齐，周K线从周一开始）
+  getKlinePeriodStart(timestamp: number, interval: KlineInterval): number {
+    return getKlinePeriodStart(timestamp, interval);
   }
 
   // 获取K线周期的结束时间戳
-  private getKlinePeriodEnd(timestamp: number, interval: KlineInterval): number {
-    const periodStart = this.getKlinePeriodStart(timestamp, interval);
-    
-    switch (interval) {
-      case '30s':
-        return periodStart + 30 * 1000;
-      case '1m':
-        return periodStart + 60 * 1000;
-      case '15m':
-        return periodStart + 15 * 60 * 1000;
-      default:
-        throw new Error(`Unsupported interval: ${interval}`);
-    }
+  getKlinePeriodEnd(timestamp: number, interval: KlineInterval): number {
+    return this.getKlinePeriodStart(timestamp, interval) + getIntervalMilliseconds(interval);
   }
 
   // 获取或创建K线数据
@@ -89,68 +175,157 @@ class KlineCache {
     let kline = this.cache.get(cacheKey);
     
     if (!kline) {
-      // 尝试从数据库获取最新的K线数据
-      const latestKline = await getLatestKline({
+      // 已持久化的K线（已结束周期的延迟交易，或未结束周期的检查点）在其基础上继续累加
+      const persistedKline = await getKlineByTimestamp({
         network,
         pairAddress,
-        intervalType: interval
+        intervalType: interval,
+        timestamp: periodStart
       });
       
-      // 如果是新周期的开始，开盘价应该是上一个K线的收盘价
-      let openPrice = price;
-      if (latestKline && parseInt(latestKline.timestamp) < periodStart) {
-        openPrice = latestKline.close;
+      if (persistedKline && persistedKline.close !== '0') {
+        kline = this.fromPersistedKline(persistedKline, interval);
+      } else {
+        // 尝试从数据库获取该周期之前最新的K线数据
+        const latestKline = await getLatestKline({
+          network,
+          pairAddress,
+          intervalType: interval,
+          beforeTimestamp: periodStart
+        });
+        
+        // 如果是新周期的开始，开盘价应该是上一个K线的收盘价
+        let openPrice = price;
+        if (latestKline) {
+          openPrice = latestKline.close;
+        }
+        
+        kline = {
+          network,
+          pair_address: pairAddress,
+          interval_type: interval,
+          timestamp: periodStart,
+          open_price: openPrice,
+          high_price: price,
+          low_price: price,
+          close_price: price,
+          volume: '0',
+          quote_volume: '0',
+          buy_volume: '0',
+          sell_volume: '0',
+          trade_count: 0,
+          unique_traders: 0,
+          is_complete: false
+        };
       }
       
-      kline = {
-        network,
-        pair_address: pairAddress,
-        interval_type: interval,
-        timestamp: periodStart,
-        open_price: openPrice,
-        high_price: price,
-        low_price: price,
-        close_price: price,
-        volume: '0',
-        trade_count: 0,
-        is_complete: false
-      };
-      
       this.cache.set(cacheKey, kline);
-      
-      // 设置定时器，在周期结束时自动完成K线
-      const periodEnd = this.getKlinePeriodEnd(timestamp, interval);
-      const timeToEnd = periodEnd - Date.now();
-      
-      if (timeToEnd > 0) {
-        const timer = setTimeout(() => {
-          this.completeKline(cacheKey);
-        }, timeToEnd);
-        
-        this.timers.set(cacheKey, timer);
-      }
+      this.scheduleCompletion(cacheKey, kline);
     }
     
     return kline;
   }
 
+  // 把数据库中的K线转换为缓存中未完成的K线
+  private fromPersistedKline(persistedKline: Kline, interval: KlineInterval): KlineData {
+    return {
+      network: persistedKline.network,
+      pair_address: persistedKline.pair_address,
+      interval_type: interval,
+      timestamp: Number(persistedKline.timestamp),
+      open_price: persistedKline.open,
+      high_price: persistedKline.high,
+      low_price: persistedKline.low,
+      close_price: persistedKline.close,
+      volume: persistedKline.volume,
+      quote_volume: persistedKline.quote_volume,
+      buy_volume: persistedKline.buy_volume,
+      sell_volume: persistedKline.sell_volume,
+      trade_count: persistedKline.trade_count,
+      unique_traders: persistedKline.unique_traders,
+      is_complete: false
+    };
+  }
+
+  // 设置定时器，在周期结束时自动完成K线
+  private scheduleCompletion(cacheKey: string, kline: KlineData): void {
+    const timeToEnd = this.getKlinePeriodEnd(kline.timestamp, kline.interval_type) - Date.now();
+    
+    if (timeToEnd > 0) {
+      const timer = setTimeout(() => {
+        this.completeKline(cacheKey);
+      }, timeToEnd);
+      
+      this.timers.set(cacheKey, timer);
+    }
+  }
+
+  // 把未完成的K线写入数据库作为检查点，进程重启后从检查点恢复
+  async checkpointKline(kline: KlineData): Promise<void> {
+    kline.unique_traders = await countKlineTraders(kline);
+    await upsertKline({ ...toKlineInput(kline), is_complete: false });
+  }
+
+  /**
+   * 从数据库恢复上次运行时未完成的K线：周期已结束的直接完成，未结束的放回缓存并重新设置完成定时器
+   * 汇总周期的K线只放回缓存，由基础K线完成时的汇总或定期清理完成
+   * 返回恢复了由成交聚合的K线的交易对（network:pairAddress）
+   */
+  async restoreOpenKlines(tradeIntervals: KlineInterval[]): Promise<string[]> {
+    const restoredPairs = new Set<string>();
+    const incompleteKlines = await getIncompleteKlines();
+
+    for (const persistedKline of incompleteKlines) {
+      const interval = persistedKline.interval_type as KlineInterval;
+      const kline = this.fromPersistedKline(persistedKline, interval);
+      const cacheKey = this.getCacheKey(kline.network, kline.pair_address, interval, kline.timestamp);
+      if (this.cache.has(cacheKey)) continue;
+
+      this.cache.set(cacheKey, kline);
+
+      if (!tradeIntervals.includes(interval)) {
+        if (this.getKlinePeriodEnd(kline.timestamp, interval) <= Date.now()) {
+          await this.completeKline(cacheKey);
+        }
+        continue;
+      }
+
+      restoredPairs.add(`${kline.network}:${kline.pair_address}`);
+      if (this.getKlinePeriodEnd(kline.timestamp, interval) <= Date.now()) {
+        await this.completeKline(cacheKey);
+      } else {
+        this.scheduleCompletion(cacheKey, kline);
+      }
+    }
+
+    return Array.from(restoredPairs);
+  }
+
   // 更新K线数据
-  updateKline(kline: KlineData, price: string, volume: string): void {
+  updateKline(kline: KlineData, trade: TradeData): void {
+    const { price, amount } = trade;
+    
     // 更新最高价
-    if (parseFloat(price) > parseFloat(kline.high_price)) {
+    if (compareDecimals(price, kline.high_price) > 0) {
       kline.high_price = price;
     }
     
     // 更新最低价
-    if (parseFloat(price) < parseFloat(kline.low_price)) {
+    if (compareDecimals(price, kline.low_price) < 0) {
       kline.low_price = price;
     }
     
     // 更新收盘价
     kline.close_price = price;
     
-    // 累加成交量
-    kline.volume = (parseFloat(kline.volume) + parseFloat(volume)).toString();
+    // 累加成交量和成交额（定点小数运算，保留18位小数）
+    kline.volume = addDecimals(kline.volume, amount);
+    kline.quote_volume = addDecimals(kline.quote_volume, trade.quoteAmount);
+    if (trade.isBuy) {
+      kline.buy_volume = addDecimals(kline.buy_volume, amount);
+    } else {
+      kline.sell_volume = addDecimals(kline.sell_volume, amount);
+    }
     
     // 增加交易次数
     kline.trade_count += 1;
@@ -177,7 +352,8 @@ class KlineCache {
           const latestKline = await getLatestKline({
             network: kline.network,
             pairAddress: kline.pair_address,
-            intervalType: kline.interval_type
+            intervalType: kline.interval_type,
+            beforeTimestamp: kline.timestamp
           });
           const referencePrice = latestKline ? latestKline.close : '0';
           kline.open_price = referencePrice;
@@ -196,17 +372,8 @@ class KlineCache {
     
     try {
       // 持久化到数据库
-      await upsertKline({
-        network: kline.network,
-        pair_address: kline.pair_address,
-        interval_type: kline.interval_type,
-        timestamp: kline.timestamp.toString(),
-        open: kline.open_price,
-        high: kline.high_price,
-        low: kline.low_price,
-        close: kline.close_price,
-        volume: kline.volume
-      });
+      kline.unique_traders = await countKlineTraders(kline);
+      await upsertKline(toKlineInput(kline));
       console.log(`K线已完成并保存: ${cacheKey}, OHLC: ${kline.open_price}/${kline.high_price}/${kline.low_price}/${kline.close_price}`);
     } catch (error) {
       console.error(`保存K线数据失败: ${cacheKey}`, error);
@@ -221,6 +388,49 @@ class KlineCache {
       clearTimeout(timer);
       this.timers.delete(cacheKey);
     }
+
+    if (this.completionListener) {
+      try {
+        await this.completionListener(kline);
+      } catch (error) {
+        console.error(`K线完成后的处理失败: ${cacheKey}`, error);
+      }
+    }
+  }
+
+  // 写入汇总得到的K线：周期未结束时保留在缓存中供推送，已结束时从缓存移除
+  setRolledUpKline(kline: KlineData): void {
+    const cacheKey = this.getCacheKey(kline.network, kline.pair_address, kline.interval_type, kline.timestamp);
+    if (kline.is_complete) {
+      this.cache.delete(cacheKey);
+    } else {
+      this.cache.set(cacheKey, kline);
+    }
+  }
+
+  // 如果K线所在周期已经结束，立即完成并持久化，返回是否已完成
+  async completeKlineIfEnded(kline: KlineData): Promise<boolean> {
+    if (this.getKlinePeriodEnd(kline.timestamp, kline.interval_type) > Date.now()) {
+      return false;
+    }
+    
+    const cacheKey = this.getCacheKey(kline.network, kline.pair_address, kline.interval_type, kline.timestamp);
+    await this.completeKline(cacheKey);
+    return true;
+  }
+
+  // 把指定交易对和周期中未完成的缓存K线写入检查点
+  async checkpointKlines(network: string, pairAddress: string, interval: KlineInterval): Promise<void> {
+    const klines = Array.from(this.cache.values()).filter(kline =>
+      kline.network === network &&
+      kline.pair_address === pairAddress &&
+      kline.interval_type === interval &&
+      !kline.is_complete
+    );
+
+    for (const kline of klines) {
+      await this.checkpointKline(kline);
+    }
   }
 
   // 获取所有缓存的K线数据
@@ -235,6 +445,44 @@ class KlineCache {
     return this.cache.has(cacheKey);
   }
 
+  // 丢弃指定交易对和周期中开始时间在 [fromTimestamp, toTimestamp) 内的缓存K线（不持久化）
+  discardKlines(network: string, pairAddress: string, interval: KlineInterval, fromTimestamp: number, toTimestamp?: number): void {
+    Array.from(this.cache.entries()).forEach(([key, kline]) => {
+      if (
+        kline.network === network &&
+        kline.pair_address === pairAddress &&
+        kline.interval_type === interval &&
+        kline.timestamp >= fromTimestamp &&
+        (toTimestamp === undefined || kline.timestamp < toTimestamp)
+      ) {
+        this.cache.delete(key);
+
+        const timer = this.timers.get(key);
+        if (timer) {
+          clearTimeout(timer);
+          this.timers.delete(key);
+        }
+      }
+    });
+  }
+
+  // 完成指定交易对和周期中在 timestamp 之前已经结束的缓存K线
+  async completeKlinesBefore(network: string, pairAddress: string, interval: KlineInterval, timestamp: number): Promise<void> {
+    const keys = Array.from(this.cache.entries())
+      .filter(([, kline]) =>
+        kline.network === network &&
+        kline.pair_address === pairAddress &&
+        kline.interval_type === interval &&
+        this.getKlinePeriodEnd(kline.timestamp, interval) <= timestamp
+      )
+      .sort(([, a], [, b]) => a.timestamp - b.timestamp)
+      .map(([key]) => key);
+
+    for (const key of keys) {
+      await this.completeKline(key);
+    }
+  }
+
   // 清理过期的缓存
   cleanup(): void {
     const now = Date.now();
@@ -259,13 +507,61 @@ const klineCache = new KlineCache();
 // K线聚合服务类
 export class KlineAggregationService {
   private static instance: KlineAggregationService;
-  private intervals: KlineInterval[] = ['30s', '1m', '15m'];
+  private intervals: KlineInterval[] = TRADE_INTERVALS;
   private cleanupTimer: NodeJS.Timeout | null = null;
   private klineGenerationTimers: Map<string, NodeJS.Timeout> = new Map();
   private activePairs: Set<string> = new Set(); // 存储活跃的交易对
+  private rebuildingPairs: Set<string> = new Set(); // 正在重建K线的交易对，重建完成后统一汇总
+  private rollupTraders: Map<string, { periodStart: number; traders: Set<string> }> = new Map(); // 各交易对当前汇总周期的交易地址，键为 network:pairAddress:interval
+  private restored: Promise<void>; // 从数据库恢复未完成K线的任务，处理成交前需要等待完成
 
   private constructor() {
     this.startCleanupTimer();
+    this.subscribeToEvents();
+    klineCache.onKlineCompleted((kline) => this.rollupFromBaseKline(kline));
+    this.restored = this.restoreOpenKlines();
+  }
+
+  // 恢复上次运行时未完成的K线，并为这些交易对恢复自动K线生成
+  private async restoreOpenKlines(): Promise<void> {
+    try {
+      const restoredPairs = await klineCache.restoreOpenKlines(this.intervals);
+      for (const pairKey of restoredPairs) {
+        const [network, pairAddress] = pairKey.split(':');
+        this.ensureKlineGeneration(network, pairAddress);
+      }
+      if (restoredPairs.length > 0) {
+        console.log(`已恢复 ${restoredPairs.length} 个交易对未完成的K线`);
+      }
+    } catch (error) {
+      console.error('恢复未完成的K线失败:', error);
+    }
+  }
+
+  // 订阅交易入库事件，把成交计入K线
+  private subscribeToEvents(): void {
+    eventBus.subscribe('trade.ingested', async ({ tradeEvent }) => {
+      if (!tradeEvent.token_address) return;
+
+      await this.processTradeData({
+        amount: tradeEvent.token_amount,
+        quoteAmount: tradeEvent.eth_amount,
+        isBuy: tradeEvent.isBuy,
+        price: tradeEvent.price,
+        address: tradeEvent.token_address, // 代币地址作为交易对地址
+        network: tradeEvent.network,
+        timestamp: new Date(tradeEvent.timestamp).getTime(), // 按区块时间归入K线周期
+        txHash: tradeEvent.tx_hash,
+        logIndex: tradeEvent.log_index
+      });
+    });
+  }
+
+  // 发布K线更新事件，由订阅者（如WebSocket服务）推送；订阅者失败不影响K线聚合
+  private publishKlineUpdated(network: string, pairAddress: string): void {
+    eventBus.publish('kline.updated', { network, pairAddress }).catch((error) => {
+      console.error('K线更新事件处理失败:', error);
+    });
   }
 
   // 获取单例实例
@@ -276,34 +572,82 @@ export class KlineAggregationService {
     return KlineAggregationService.instance;
   }
 
-  // 处理交易数据，更新所有时间周期的K线
+  // 处理交易数据，更新由成交直接聚合的K线；更长周期在基础K线完成后汇总
+  // tradeData.timestamp 为交易所在区块的时间（毫秒），缺省时使用当前时间
   async processTradeData(tradeData: TradeData): Promise<void> {
+    await this.restored;
     const timestamp = tradeData.timestamp || Date.now();
-    const { amount, price, address: pairAddress, network } = tradeData;
-    
+    const { address: pairAddress, network } = tradeData;
 
     // 确保该交易对的自动K线生成已启动
     this.ensureKlineGeneration(network, pairAddress);
     
-    // 为每个时间间隔更新K线数据
+    // 为每个时间间隔更新K线数据，单个周期失败不影响其他周期
+    const failedIntervals: KlineInterval[] = [];
     for (const interval of this.intervals) {
       try {
-        // 获取或创建K线数据
-        const kline = await klineCache.getOrCreateKline(network, pairAddress, interval, timestamp, price);
-        
-        // 更新K线数据
-        klineCache.updateKline(kline, price, amount);
-        
+        await this.applyTradeToKline(tradeData, interval, timestamp);
       } catch (error) {
         console.error(`处理K线数据失败 ${interval}:`, error);
+        failedIntervals.push(interval);
       }
     }
     
-    // 触发WebSocket推送K线更新
+    // 通知K线更新
+    this.publishKlineUpdated(network, pairAddress);
+
+    // 有周期失败时抛出错误，使 trade.ingested 的发布方把该交易写入死信队列重试
+    if (failedIntervals.length > 0) {
+      throw new Error(`处理K线数据失败: ${network}:${pairAddress} (${failedIntervals.join(', ')})`);
+    }
+  }
+
+  // 成交在指定周期中的计入记录键，没有交易哈希和日志索引的成交无法识别，返回 null
+  private getKlineTradeKey(tradeData: TradeData, interval: KlineInterval, timestamp: number): KlineTradeKey | null {
+    if (!tradeData.txHash || tradeData.logIndex === undefined) {
+      return null;
+    }
+    return {
+      network: tradeData.network,
+      pairAddress: tradeData.address,
+      intervalType: interval,
+      klineTimestamp: klineCache.getKlinePeriodStart(timestamp, interval),
+      txHash: tradeData.txHash,
+      logIndex: tradeData.logIndex
+    };
+  }
+
+  /**
+   * 把一笔成交计入指定周期的K线；同一笔成交在每个周期只计入一次，计入记录持久化在数据库中，
+   * 重试死信或重启后再次收到已计入的成交时跳过，避免成交量和成交笔数重复累加
+   * 计入失败时撤销记录并丢弃缓存中已累加该成交的K线，重试时从数据库中的检查点重新累加
+   */
+  private async applyTradeToKline(tradeData: TradeData, interval: KlineInterval, timestamp: number): Promise<void> {
+    const { network, address: pairAddress } = tradeData;
+    const tradeKey = this.getKlineTradeKey(tradeData, interval, timestamp);
+    if (tradeKey && !(await markKlineTradeApplied(tradeKey))) {
+      console.log(`交易已计入${interval}K线，跳过: ${network}:${pairAddress}:${tradeKey.txHash}:${tradeKey.logIndex}`);
+      return;
+    }
+
     try {
-      broadcastKlineUpdate(network, pairAddress);
+      // 获取或创建K线数据
+      const kline = await klineCache.getOrCreateKline(network, pairAddress, interval, timestamp, tradeData.price);
+
+      // 更新K线数据
+      klineCache.updateKline(kline, tradeData);
+
+      // 交易属于已结束的周期时，直接把合并后的K线写回数据库；否则写入检查点，重启后不丢失本周期的成交
+      if (!(await klineCache.completeKlineIfEnded(kline))) {
+        await klineCache.checkpointKline(kline);
+      }
     } catch (error) {
-      console.error('Failed to broadcast kline update via WebSocket:', error);
+      const periodStart = klineCache.getKlinePeriodStart(timestamp, interval);
+      klineCache.discardKlines(network, pairAddress, interval, periodStart, periodStart + 1);
+      if (tradeKey) {
+        await unmarkKlineTradeApplied(tradeKey);
+      }
+      throw error;
     }
   }
 
@@ -321,6 +665,228 @@ export class KlineAggregationService {
     }
   }
 
+  /**
+   * 从 fromTimestamp 所在周期开始，按给定交易重新生成交易对的K线
+   * 用于链重组回滚等需要丢弃已聚合数据的场景，trades 需包含该时间之后的全部交易
+   * 传入 toTimestamp 时只重建到该时间所在周期（含）为止，trades 需覆盖到最长周期的结束时间
+   */
+  async rebuildKlines(network: string, pairAddress: string, fromTimestamp: number, trades: TradeData[], toTimestamp?: number): Promise<void> {
+    await this.restored;
+    const pairKey = `${network}:${pairAddress}`;
+    this.rebuildingPairs.add(pairKey);
+    try {
+      await this.rebuildTradeKlines(network, pairAddress, fromTimestamp, trades, toTimestamp);
+      await this.rebuildRollupKlines(network, pairAddress, fromTimestamp, toTimestamp);
+    } finally {
+      this.rebuildingPairs.delete(pairKey);
+    }
+
+    this.publishKlineUpdated(network, pairAddress);
+  }
+
+  // 按给定交易重新生成由成交直接聚合的K线
+  private async rebuildTradeKlines(network: string, pairAddress: string, fromTimestamp: number, trades: TradeData[], toTimestamp?: number): Promise<void> {
+    const sortedTrades = [...trades].sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+
+    for (const interval of this.intervals) {
+      const intervalMs = getIntervalMilliseconds(interval);
+      const periodStart = klineCache.getKlinePeriodStart(fromTimestamp, interval);
+      const periodEnd = toTimestamp !== undefined ? klineCache.getKlinePeriodEnd(toTimestamp, interval) : undefined;
+
+      // 丢弃受影响周期的缓存和已持久化数据
+      klineCache.discardKlines(network, pairAddress, interval, periodStart, periodEnd);
+      await deleteKlinesByCondition({
+        network,
+        pairAddress,
+        intervalType: interval,
+        fromTimestamp: periodStart,
+        toTimestamp: periodEnd
+      });
+
+      // 重建后以给定交易为准：清除这些周期的成交计入记录，使重组后重新打包的交易能再次计入，并记录本次重建计入的交易
+      await deleteKlineTrades({
+        network,
+        pairAddress,
+        intervalType: interval,
+        fromTimestamp: periodStart,
+        toTimestamp: periodEnd
+      });
+
+      let nextPeriodStart = periodStart;
+      for (const trade of sortedTrades) {
+        const timestamp = trade.timestamp || Date.now();
+        if (timestamp < periodStart || (periodEnd !== undefined && timestamp >= periodEnd)) {
+          continue;
+        }
+
+        // 补齐两笔成交之间没有成交的周期
+        const tradePeriodStart = klineCache.getKlinePeriodStart(timestamp, interval);
+        await this.fillEmptyKlines(network, pairAddress, interval, nextPeriodStart, tradePeriodStart);
+        nextPeriodStart = Math.max(nextPeriodStart, tradePeriodStart + intervalMs);
+
+        // 先完成之前的周期，保证新周期的开盘价取到上一根K线的收盘价
+        await klineCache.completeKlinesBefore(network, pairAddress, interval, timestamp);
+
+        const kline = await klineCache.getOrCreateKline(network, pairAddress, interval, timestamp, trade.price);
+        klineCache.updateKline(kline, trade);
+
+        const tradeKey = this.getKlineTradeKey(trade, interval, timestamp);
+        if (tradeKey) {
+          await markKlineTradeApplied(tradeKey);
+        }
+      }
+
+      // 补齐最后一笔成交之后到重建范围结束（最多到当前周期）的空K线
+      const currentPeriodEnd = klineCache.getKlinePeriodEnd(Date.now(), interval);
+      const fillEnd = periodEnd !== undefined ? Math.min(periodEnd, currentPeriodEnd) : currentPeriodEnd;
+      await this.fillEmptyKlines(network, pairAddress, interval, nextPeriodStart, fillEnd);
+
+      // 持久化已经结束的周期，当前周期写入检查点并留在缓存中由定时器完成
+      await klineCache.completeKlinesBefore(network, pairAddress, interval, Date.now());
+      await klineCache.checkpointKlines(network, pairAddress, interval);
+    }
+  }
+
+  // 为 [fromPeriodStart, toPeriodStart) 内没有成交的周期生成空K线，开高低收都取上一根K线的收盘价，与定时生成的空K线一致
+  private async fillEmptyKlines(network: string, pairAddress: string, interval: KlineInterval, fromPeriodStart: number, toPeriodStart: number): Promise<void> {
+    const intervalMs = getIntervalMilliseconds(interval);
+
+    for (let periodStart = fromPeriodStart; periodStart < toPeriodStart; periodStart += intervalMs) {
+      if (klineCache.hasKline(network, pairAddress, interval, periodStart)) continue;
+
+      await klineCache.completeKlinesBefore(network, pairAddress, interval, periodStart);
+      const latestKline = await getLatestKline({
+        network,
+        pairAddress,
+        intervalType: interval,
+        beforeTimestamp: periodStart
+      });
+      // 之前还没有任何K线时没有参考价格，之后的周期也不会有
+      if (!latestKline) return;
+
+      await klineCache.getOrCreateKline(network, pairAddress, interval, periodStart, latestKline.close);
+    }
+  }
+
+  /**
+   * 从 fromTimestamp 所在周期开始，按来源周期已持久化的K线逐级重新汇总更长周期的K线
+   * 不需要原始成交，只要基础K线完整即可重建任意汇总周期
+   */
+  async rebuildRollupKlines(network: string, pairAddress: string, fromTimestamp: number, toTimestamp?: number): Promise<void> {
+    for (const { interval, source } of ROLLUP_INTERVALS) {
+      const periodStart = klineCache.getKlinePeriodStart(fromTimestamp, interval);
+      const periodEnd = toTimestamp !== undefined ? klineCache.getKlinePeriodEnd(toTimestamp, interval) : undefined;
+
+      klineCache.discardKlines(network, pairAddress, interval, periodStart, periodEnd);
+      await deleteKlinesByCondition({
+        network,
+        pairAddress,
+        intervalType: interval,
+        fromTimestamp: periodStart,
+        toTimestamp: periodEnd
+      });
+
+      const sourceKlines = await getKlinesInRange({
+        network,
+        pairAddress,
+        intervalType: source,
+        fromTimestamp: periodStart,
+        toTimestamp: periodEnd
+      });
+
+      // 按目标周期分组后逐个汇总
+      const groups = new Map<number, Kline[]>();
+      for (const sourceKline of sourceKlines) {
+        const groupStart = klineCache.getKlinePeriodStart(Number(sourceKline.timestamp), interval);
+        const group = groups.get(groupStart) || [];
+        group.push(sourceKline);
+        groups.set(groupStart, group);
+      }
+
+      for (const [groupStart, group] of groups) {
+        const kline = aggregateKlines(network, pairAddress, interval, groupStart, group);
+        if (!kline) continue;
+
+        kline.is_complete = klineCache.getKlinePeriodEnd(groupStart, interval) <= Date.now();
+        kline.unique_traders = await countKlineTraders(kline);
+        await this.saveRolledUpKline(kline);
+      }
+
+      // 重建的周期之后按成交记录重新统计交易地址
+      this.rollupTraders.delete(`${network}:${pairAddress}:${interval}`);
+    }
+  }
+
+  // 基础K线完成后，逐级汇总其所在的各个更长周期；重建中的交易对在重建结束时统一汇总
+  private async rollupFromBaseKline(baseKline: KlineData): Promise<void> {
+    if (baseKline.interval_type !== BASE_INTERVAL) return;
+
+    const { network, pair_address: pairAddress } = baseKline;
+    if (this.rebuildingPairs.has(`${network}:${pairAddress}`)) return;
+
+    const baseEnd = klineCache.getKlinePeriodEnd(baseKline.timestamp, BASE_INTERVAL);
+    const baseTraders = baseKline.trade_count > 0
+      ? await getTraderAddresses(network, pairAddress, baseKline.timestamp, baseEnd)
+      : [];
+
+    for (const { interval, source } of ROLLUP_INTERVALS) {
+      const periodStart = klineCache.getKlinePeriodStart(baseKline.timestamp, interval);
+      const periodEnd = klineCache.getKlinePeriodEnd(baseKline.timestamp, interval);
+
+      const sourceKlines = await getKlinesInRange({
+        network,
+        pairAddress,
+        intervalType: source,
+        fromTimestamp: periodStart,
+        toTimestamp: periodEnd
+      });
+
+      const kline = aggregateKlines(network, pairAddress, interval, periodStart, sourceKlines);
+      if (!kline) continue;
+
+      // 周期内最后一根基础K线完成，或汇总周期本身已经结束（延迟交易、重启恢复）时，汇总周期也随之完成
+      kline.is_complete = baseEnd >= periodEnd || periodEnd <= Date.now();
+      kline.unique_traders = await this.mergeRollupTraders(kline, baseTraders);
+      await this.saveRolledUpKline(kline);
+    }
+
+    this.publishKlineUpdated(network, pairAddress);
+  }
+
+  /**
+   * 把基础K线的交易地址并入所在汇总周期的地址集合，返回汇总周期内的独立交易地址数
+   * 每个交易对和周期只在内存中保留当前汇总周期的地址集合：新周期（或重启后）按成交记录统计一次，
+   * 之后每根基础K线完成时只合并该基础K线的地址，不再对整个汇总周期重新统计
+   */
+  private async mergeRollupTraders(kline: KlineData, baseTraders: string[]): Promise<number> {
+    const key = `${kline.network}:${kline.pair_address}:${kline.interval_type}`;
+    const current = this.rollupTraders.get(key);
+
+    let traders: Set<string>;
+    if (current && current.periodStart === kline.timestamp) {
+      traders = current.traders;
+      baseTraders.forEach(trader => traders.add(trader));
+    } else {
+      const periodEnd = klineCache.getKlinePeriodEnd(kline.timestamp, kline.interval_type);
+      traders = new Set(await getTraderAddresses(kline.network, kline.pair_address, kline.timestamp, periodEnd));
+      // 延迟交易所在的旧周期只统计一次，不替换当前周期的地址集合
+      if (!current || kline.timestamp > current.periodStart) {
+        this.rollupTraders.set(key, { periodStart: kline.timestamp, traders });
+      }
+    }
+
+    if (kline.is_complete && this.rollupTraders.get(key)?.periodStart === kline.timestamp) {
+      this.rollupTraders.delete(key);
+    }
+    return traders.size;
+  }
+
+  // 持久化汇总得到的K线并更新缓存
+  private async saveRolledUpKline(kline: KlineData): Promise<void> {
+    await upsertKline(toKlineInput(kline));
+    klineCache.setRolledUpKline(kline);
+  }
+
   // 获取当前缓存的K线数据
   getCachedKlines(network?: string, pairAddress?: string): KlineData[] {
     const allKlines = klineCache.getAllCachedKlines();
@@ -384,7 +950,7 @@ export class KlineAggregationService {
    * 为指定交易对和时间间隔启动自动K线生成
    */
   private startIntervalKlineGeneration(network: string, pairAddress: string, interval: KlineInterval): void {
-    const intervalMs = this.getIntervalMs(interval);
+    const intervalMs = getIntervalMilliseconds(interval);
     const timerKey = `${network}:${pairAddress}:${interval}`;
     
     // 计算下一个周期开始的时间
@@ -409,25 +975,11 @@ export class KlineAggregationService {
     this.klineGenerationTimers.set(`${timerKey}:initial`, initialTimer);
   }
   
-  /**
-   * 获取时间间隔的毫秒数
-   */
-  private getIntervalMs(interval: KlineInterval): number {
-    switch (interval) {
-      case '30s': return 30 * 1000;
-      case '1m': return 60 * 1000;
-      case '15m': return 15 * 60 * 1000;
-      default: throw new Error(`Unsupported interval: ${interval}`);
-    }
-  }
-  
   /**
    * 获取下一个周期开始的时间
    */
   private getNextPeriodStart(timestamp: number, interval: KlineInterval): number {
-    const intervalMs = this.getIntervalMs(interval);
-    const currentPeriodStart = Math.floor(timestamp / intervalMs) * intervalMs;
-    return currentPeriodStart + intervalMs;
+    return klineCache.getKlinePeriodEnd(timestamp, interval);
   }
   
   /**
@@ -436,7 +988,7 @@ export class KlineAggregationService {
   private async generateEmptyKline(network: string, pairAddress: string, interval: KlineInterval, timestamp: number): Promise<void> {
     try {
       // 获取周期开始时间
-      const periodStart = Math.floor(timestamp / this.getIntervalMs(interval)) * this.getIntervalMs(interval);
+      const periodStart = klineCache.getKlinePeriodStart(timestamp, interval);
       
       // 检查是否已存在该K线
       if (klineCache.hasKline(network, pairAddress, interval, periodStart)) {
@@ -457,15 +1009,16 @@ export class KlineAggregationService {
       const newKline = await klineCache.getOrCreateKline(network, pairAddress, interval, periodStart, referencePrice);
       
       // 如果是空K线（没有交易），确保OHLC数据一致
-      if (referencePrice !== '0' && newKline.trade_count === 0) {
+      if (referencePrice !== '0' && newKline.trade_count === 0 && compareDecimals(newKline.volume, '0') === 0) {
         newKline.open_price = referencePrice;
         newKline.high_price = referencePrice;
         newKline.low_price = referencePrice;
         newKline.close_price = referencePrice;
       }
+      await klineCache.checkpointKline(newKline);
       
-      // 广播K线更新
-      broadcastKlineUpdate(network, pairAddress);
+      // 通知K线更新
+      this.publishKlineUpdated(network, pairAddress);
       
     } catch (error) {
       console.error(`生成空K线失败: ${network}:${pairAddress}:${interval}`, error);
@@ -500,6 +1053,11 @@ export async function processTradeForKlines(tradeData: TradeData): Promise<void>
   return klineService.processTradeData(tradeData);
 }
 
+// 导出重建K线数据的函数
+export async function rebuildKlinesFromTrades(network: string, pairAddress: string, fromTimestamp: number, trades: TradeData[], toTimestamp?: number): Promise<void> {
+  return klineService.rebuildKlines(network, pairAddress, fromTimestamp, trades, toTimestamp);
+}
+
 // 导出获取缓存K线数据的函数
 export function getCachedKlineData(network?: string, pairAddress?: string): KlineData[] {
   return klineService.getCachedKlines(network, pairAddress);
@@ -0,0 +1,241 @@
+import { erc20Abi, formatUnits, zeroAddress } from 'viem'
+import kekeswapPairAbi from '../abi/KekeswapPair.json'
+import {
+  createTradingPair,
+  getAllPairAddresses,
+  getPairByAddress,
+  updatePairSyncReserves,
+  updatePairTotalSupply
+} from '../app/api/utils/pair-queries'
+import { getTokenByAddress, insertToken } from '../app/api/utils/token-queries'
+import { insertIndexedTransaction, deleteIndexedTransactionsFromBlock } from '../app/api/utils/stats-queries'
+import type { IndexedEvent, ListenerClient } from './trade-listener'
+
+// 交易对手续费：输入金额的 0.3%
+const SWAP_FEE_NUMERATOR = BigInt(3)
+const SWAP_FEE_DENOMINATOR = BigInt(1000)
+
+// 已登记的交易对地址映射：小写地址 -> 数据库中保存的地址
+const knownPairs = new Map<string, string>()
+let knownPairsLoaded = false
+
+// 同一笔交易中尚未被 Mint/Burn 事件消费的 LP 铸造/销毁数量，键为 交易哈希:交易对地址
+const pendingLiquidity = new Map<string, bigint>()
+
+// 最近一笔交易的回执，同一笔交易的多个事件只请求一次
+let lastReceipt: { hash: string, from: string, gasUsed: number, gasPrice: string } | null = null
+
+// 从数据库加载已登记的交易对
+const loadKnownPairs = async () => {
+  if (knownPairsLoaded) return
+  const pairAddresses = await getAllPairAddresses()
+  for (const pairAddress of pairAddresses) {
+    knownPairs.set(pairAddress.toLowerCase(), pairAddress)
+  }
+  knownPairsLoaded = true
+}
+
+// 获取需要监听事件的交易对地址
+export const getIndexedPairAddresses = async (): Promise<`0x${string}`[]> => {
+  await loadKnownPairs()
+  return Array.from(knownPairs.values()) as `0x${string}`[]
+}
+
+// 是否为已登记的交易对地址
+export const isIndexedPairAddress = async (address: string): Promise<boolean> => {
+  await loadKnownPairs()
+  return knownPairs.has(address.toLowerCase())
+}
+
+// 获取交易发起人和Gas信息
+const getTransactionInfo = async (client: ListenerClient, hash: `0x${string}`) => {
+  if (lastReceipt?.hash === hash) {
+    return lastReceipt
+  }
+
+  const receipt = await client.getTransactionReceipt({ hash })
+  lastReceipt = {
+    hash,
+    from: receipt.from,
+    gasUsed: Number(receipt.gasUsed),
+    gasPrice: receipt.effectiveGasPrice.toString()
+  }
+  return lastReceipt
+}
+
+// 确保代币已登记到 tokens 表，缺失时从链上读取ERC20信息
+const ensureToken = async (client: ListenerClient, tokenAddress: `0x${string}`) => {
+  const existing = await getTokenByAddress(tokenAddress)
+  if (existing) return
+
+  const [name, symbol, decimals, totalSupply] = await Promise.all([
+    client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'name' }),
+    client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'symbol' }),
+    client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'decimals' }),
+    client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'totalSupply' })
+  ])
+
+  await insertToken({
+    address: tokenAddress,
+    name,
+    symbol,
+    decimals,
+    total_supply: totalSupply.toString()
+  })
+  console.log(`Token registered from PairCreated: ${symbol} (${tokenAddress})`)
+}
+
+// 读取交易对最新的LP总供应量（不依赖归档节点，回补期间也会收敛到链上当前状态）
+const refreshPairTotalSupply = async (client: ListenerClient, pairAddress: string) => {
+  const totalSupply = await client.readContract({
+    address: pairAddress as `0x${string}`,
+    abi: kekeswapPairAbi,
+    functionName: 'totalSupply'
+  })
+  await updatePairTotalSupply(pairAddress, String(totalSupply))
+}
+
+// 按代币价格把兑换手续费折算为美元，价格未知时按 0 计算
+const getSwapFeeUsd = async (pairAddress: string, fee0: bigint, fee1: bigint): Promise<number> => {
+  const pair = await getPairByAddress(pairAddress)
+  if (!pair) return 0
+
+  const fee0Usd = Number(formatUnits(fee0, pair.token0_decimals)) * (pair.token0_price_usd || 0)
+  const fee1Usd = Number(formatUnits(fee1, pair.token1_decimals)) * (pair.token1_price_usd || 0)
+  return fee0Usd + fee1Usd
+}
+
+// 处理 KekeswapFactory 的 PairCreated 事件，返回新登记的交易对地址
+export async function handlePairCreated(event: IndexedEvent, client: ListenerClient): Promise<`0x${string}` | null> {
+  const { token0, token1, pair } = event.args as { token0: `0x${string}`, token1: `0x${string}`, pair: `0x${string}` }
+  await loadKnownPairs()
+
+  if (knownPairs.has(pair.toLowerCase())) {
+    return null
+  }
+
+  try {
+    await ensureToken(client, token0)
+    await ensureToken(client, token1)
+    await createTradingPair(pair, token0, token1, '0', '0', '0')
+    knownPairs.set(pair.toLowerCase(), pair)
+    console.log(`Trading pair registered for chain ${event.chainId}: ${pair}`)
+    return pair
+  } catch (error) {
+    console.error(`Error registering trading pair ${pair}:`, error)
+    return null
+  }
+}
+
+// 处理交易对的 Swap、Mint、Burn、Sync 和 LP Transfer 事件
+export async function handlePairEvent(event: IndexedEvent, client: ListenerClient) {
+  const pairAddress = knownPairs.get(event.address.toLowerCase())
+  if (!pairAddress || !event.transactionHash || event.logIndex === null) return
+
+  const liquidityKey = `${event.transactionHash}:${pairAddress}`
+  const timestamp = new Date(event.blockTimestamp).toISOString().replace('T', ' ').slice(0, 19)
+
+  try {
+    switch (event.eventName) {
+      case 'Transfer': {
+        // LP 铸造/销毁记录下来，供随后的 Mint/Burn 事件使用；首次注入时锁定到零地址的最小流动性不计入
+        const { from, to, value } = event.args as { from: string, to: string, value: bigint }
+        const isLiquidityMint = from === zeroAddress && to !== zeroAddress
+        const isLiquidityBurn = to === zeroAddress && from !== zeroAddress
+        if (isLiquidityMint || isLiquidityBurn) {
+          pendingLiquidity.set(liquidityKey, (pendingLiquidity.get(liquidityKey) || BigInt(0)) + value)
+        }
+        break
+      }
+
+      case 'Sync': {
+        const { reserve0, reserve1 } = event.args as { reserve0: bigint, reserve1: bigint }
+        await updatePairSyncReserves(pairAddress, reserve0.toString(), reserve1.toString())
+        break
+      }
+
+      case 'Mint':
+      case 'Burn': {
+        const isMint = event.eventName === 'Mint'
+        const { amount0, amount1 } = event.args as { amount0: bigint, amount1: bigint }
+        const liquidity = pendingLiquidity.get(liquidityKey) || BigInt(0)
+        pendingLiquidity.delete(liquidityKey)
+
+        const txInfo = await getTransactionInfo(client, event.transactionHash)
+        await insertIndexedTransaction({
+          network: event.chainId.toString(),
+          txHash: event.transactionHash,
+          logIndex: event.logIndex,
+          blockNumber: Number(event.blockNumber),
+          pairAddress,
+          userAddress: txInfo.from,
+          transactionType: isMint ? 'ADD_LIQUIDITY' : 'REMOVE_LIQUIDITY',
+          amount0In: isMint ? amount0.toString() : undefined,
+          amount1In: isMint ? amount1.toString() : undefined,
+          amount0Out: isMint ? undefined : amount0.toString(),
+          amount1Out: isMint ? undefined : amount1.toString(),
+          liquidityChange: liquidity.toString(),
+          gasUsed: txInfo.gasUsed,
+          gasPrice: txInfo.gasPrice,
+          timestamp
+        })
+
+        await refreshPairTotalSupply(client, pairAddress)
+        break
+      }
+
+      case 'Swap': {
+        const { amount0In, amount1In, amount0Out, amount1Out } = event.args as {
+          amount0In: bigint, amount1In: bigint, amount0Out: bigint, amount1Out: bigint
+        }
+        const fee0 = amount0In * SWAP_FEE_NUMERATOR / SWAP_FEE_DENOMINATOR
+        const fee1 = amount1In * SWAP_FEE_NUMERATOR / SWAP_FEE_DENOMINATOR
+
+        const txInfo = await getTransactionInfo(client, event.transactionHash)
+        await insertIndexedTransaction({
+          network: event.chainId.toString(),
+          txHash: event.transactionHash,
+          logIndex: event.logIndex,
+          blockNumber: Number(event.blockNumber),
+          pairAddress,
+          userAddress: txInfo.from,
+          transactionType: 'SWAP',
+          amount0In: amount0In.toString(),
+          amount1In: amount1In.toString(),
+          amount0Out: amount0Out.toString(),
+          amount1Out: amount1Out.toString(),
+          feeAmount: (await getSwapFeeUsd(pairAddress, fee0, fee1)).toString(),
+          fee0Amount: fee0.toString(),
+          fee1Amount: fee1.toString(),
+          gasUsed: txInfo.gasUsed,
+          gasPrice: txInfo.gasPrice,
+          timestamp
+        })
+        break
+      }
+    }
+  } catch (error) {
+    console.error(`Error indexing ${event.eventName} event for pair ${pairAddress}:`, error)
+  }
+}
+
+// 链重组回滚：删除该网络孤块中的交易记录，并从链上重新读取所有交易对的储备量和总供应量
+export async function rollbackPairEvents(client: ListenerClient, network: string, fromBlock: bigint) {
+  await deleteIndexedTransactionsFromBlock(network, Number(fromBlock))
+  pendingLiquidity.clear()
+  lastReceipt = null
+
+  for (const pairAddress of await getIndexedPairAddresses()) {
+    try {
+      const [reserve0, reserve1] = await client.readContract({
+        address: pairAddress,
+        abi: kekeswapPairAbi,
+        functionName: 'getReserves'
+      }) as [bigint, bigint, number]
+      await updatePairSyncReserves(pairAddress, reserve0.toString(), reserve1.toString())
+      await refreshPairTotalSupply(client, pairAddress)
+    } catch (error) {
+      console.error(`Error refreshing pair ${pairAddress} after reorg:`, error)
+    }
+  }
+}
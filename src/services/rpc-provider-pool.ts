@@ -0,0 +1,312 @@
+import {
+  createPublicClient,
+  http,
+  webSocket,
+  BaseError,
+  HttpRequestError,
+  WebSocketRequestError,
+  SocketClosedError,
+  TimeoutError,
+  LimitExceededRpcError,
+  ResourceUnavailableRpcError,
+  InternalRpcError,
+  type Chain,
+  type PublicClient
+} from 'viem'
+
+// 探测所有提供者最新区块和延迟的间隔
+const PROBE_INTERVAL_MS = Number(process.env.RPC_PROBE_INTERVAL_MS || '15000')
+
+// 落后于最高区块超过该数量的提供者不再优先使用
+const MAX_BLOCK_LAG = Number(process.env.RPC_MAX_BLOCK_LAG || '3')
+
+// 触发限流后暂停使用该提供者的时长
+const RATE_LIMIT_COOLDOWN_MS = Number(process.env.RPC_RATE_LIMIT_COOLDOWN_MS || '60000')
+
+// 统计错误率时保留的最近请求数
+const OUTCOME_WINDOW = 50
+
+// 延迟的指数移动平均权重
+const LATENCY_SMOOTHING = 0.3
+
+// 评分权重：错误率为 100% 时、每落后一个区块时分别折算的延迟毫秒数
+const ERROR_RATE_PENALTY_MS = 5000
+const BLOCK_LAG_PENALTY_MS = 1000
+
+// 没有延迟数据时使用的默认延迟
+const UNKNOWN_LATENCY_MS = 1000
+
+// 单个RPC提供者的状态
+interface RpcProvider {
+  url: string
+  transport: 'websocket' | 'http'
+  client: PublicClient
+  latencyMs: number | null
+  outcomes: boolean[] // 最近请求的结果，true 为成功
+  blockNumber: bigint | null
+  cooldownUntil: number
+  lastError: string | null
+}
+
+// 对外暴露的提供者评分信息
+export interface RpcProviderStatus {
+  url: string
+  transport: 'websocket' | 'http'
+  latencyMs: number | null
+  errorRate: number
+  blockNumber: string | null
+  blockLag: number | null
+  score: number
+  coolingDown: boolean
+  lastError: string | null
+  isActive: boolean
+}
+
+// 是否为提供者自身的故障（网络、超时、限流、节点内部错误），合约回滚等请求本身的错误不计入
+const isProviderError = (error: unknown): boolean => {
+  if (!(error instanceof BaseError)) return true
+  return !!error.walk((cause) =>
+    cause instanceof HttpRequestError ||
+    cause instanceof WebSocketRequestError ||
+    cause instanceof SocketClosedError ||
+    cause instanceof TimeoutError ||
+    cause instanceof LimitExceededRpcError ||
+    cause instanceof ResourceUnavailableRpcError ||
+    cause instanceof InternalRpcError
+  )
+}
+
+// 是否为限流错误（HTTP 429 或 JSON-RPC -32005）
+const isRateLimitError = (error: unknown): boolean => {
+  if (!(error instanceof BaseError)) return false
+  return !!error.walk((cause) =>
+    (cause instanceof HttpRequestError && cause.status === 429) ||
+    cause instanceof LimitExceededRpcError
+  )
+}
+
+// 隐藏URL中的路径和参数（通常包含API密钥）
+const maskUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url)
+    return `${parsed.protocol}//${parsed.host}`
+  } catch {
+    return 'invalid-url'
+  }
+}
+
+/**
+ * 按评分路由请求的RPC提供者池
+ * 评分综合延迟、最近请求的错误率以及相对最高区块的落后程度，分数越低越优先；
+ * 请求失败时按评分依次切换到下一个提供者
+ */
+export class RpcProviderPool {
+  private providers: RpcProvider[]
+  private headBlock: bigint | null = null
+  private probeTimer: NodeJS.Timeout | null = null
+
+  constructor(private chainId: number, chain: Chain, wsUrls: string[], httpUrls: string[]) {
+    // 重试由提供者池负责，单个提供者不再自动重试
+    const createProvider = (url: string, transport: 'websocket' | 'http'): RpcProvider => ({
+      url,
+      transport,
+      client: createPublicClient({
+        chain,
+        transport: transport === 'websocket' ? webSocket(url, { retryCount: 0 }) : http(url, { retryCount: 0 })
+      }) as PublicClient,
+      latencyMs: null,
+      outcomes: [],
+      blockNumber: null,
+      cooldownUntil: 0,
+      lastError: null
+    })
+
+    this.providers = [
+      ...wsUrls.map((url) => createProvider(url, 'websocket')),
+      ...httpUrls.map((url) => createProvider(url, 'http'))
+    ]
+  }
+
+  get size(): number {
+    return this.providers.length
+  }
+
+  // 记录一次成功请求
+  private recordSuccess(provider: RpcProvider, latencyMs: number): void {
+    provider.latencyMs = provider.latencyMs === null
+      ? latencyMs
+      : provider.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING
+    provider.outcomes.push(true)
+    if (provider.outcomes.length > OUTCOME_WINDOW) provider.outcomes.shift()
+  }
+
+  // 记录一次失败请求，限流时暂停使用该提供者
+  private recordFailure(provider: RpcProvider, error: unknown): void {
+    provider.outcomes.push(false)
+    if (provider.outcomes.length > OUTCOME_WINDOW) provider.outcomes.shift()
+    provider.lastError = error instanceof Error ? error.message.split('\n')[0] : String(error)
+
+    if (isRateLimitError(error)) {
+      provider.cooldownUntil = Date.now() + RATE_LIMIT_COOLDOWN_MS
+      console.warn(`RPC provider ${maskUrl(provider.url)} rate limited for chain ${this.chainId}, cooling down for ${RATE_LIMIT_COOLDOWN_MS}ms`)
+    }
+  }
+
+  private getErrorRate(provider: RpcProvider): number {
+    if (provider.outcomes.length === 0) return 0
+    return provider.outcomes.filter((success) => !success).length / provider.outcomes.length
+  }
+
+  private getBlockLag(provider: RpcProvider): number | null {
+    if (this.headBlock === null || provider.blockNumber === null) return null
+    return Number(this.headBlock - provider.blockNumber)
+  }
+
+  // 计算提供者评分：限流冷却中或落后过多的提供者排在最后，只在其他提供者都失败时使用
+  private getScore(provider: RpcProvider): number {
+    const blockLag = this.getBlockLag(provider) ?? 0
+    let score = (provider.latencyMs ?? UNKNOWN_LATENCY_MS) +
+      this.getErrorRate(provider) * ERROR_RATE_PENALTY_MS +
+      blockLag * BLOCK_LAG_PENALTY_MS
+
+    if (provider.cooldownUntil > Date.now()) score += 1e9
+    if (blockLag > MAX_BLOCK_LAG) score += 1e6
+    return score
+  }
+
+  // 按评分从优到劣排序的提供者
+  private rankProviders(): RpcProvider[] {
+    return [...this.providers].sort((a, b) => this.getScore(a) - this.getScore(b))
+  }
+
+  // 向指定提供者发送请求并记录结果
+  private async requestFrom(provider: RpcProvider, args: { method: string, params?: unknown }): Promise<unknown> {
+    const startedAt = Date.now()
+    try {
+      const result = await provider.client.request(args as never)
+      this.recordSuccess(provider, Date.now() - startedAt)
+      return result
+    } catch (error) {
+      if (isProviderError(error)) {
+        this.recordFailure(provider, error)
+      } else {
+        // 提供者正常响应了错误结果（如合约回滚），不计入失败
+        this.recordSuccess(provider, Date.now() - startedAt)
+      }
+      throw error
+    }
+  }
+
+  // 将请求路由到评分最优的提供者，失败时依次切换
+  async request(args: { method: string, params?: unknown }): Promise<unknown> {
+    let lastError: unknown = new Error(`No RPC providers configured for chain ${this.chainId}`)
+
+    for (const provider of this.rankProviders()) {
+      try {
+        return await this.requestFrom(provider, args)
+      } catch (error) {
+        // 请求本身的错误（如合约回滚），换提供者也一样，不切换
+        if (!isProviderError(error)) throw error
+        lastError = error
+        console.warn(`RPC request ${args.method} failed on ${maskUrl(provider.url)} for chain ${this.chainId}, trying next provider`)
+      }
+    }
+
+    throw lastError
+  }
+
+  /**
+   * 固定使用当前评分最优的提供者，返回只向该提供者发送请求的函数，失败时不切换
+   * 用于前后请求必须来自同一节点的场景：如先查询链头再按链头拉取日志，
+   * 若两次请求落到不同节点，落后的节点会返回空日志，调用方却以为已处理到链头；失败时由调用方整体重试
+   */
+  pinProvider(): (args: { method: string, params?: unknown }) => Promise<unknown> {
+    const [provider] = this.rankProviders()
+    if (!provider) {
+      throw new Error(`No RPC providers configured for chain ${this.chainId}`)
+    }
+    return (args) => this.requestFrom(provider, args)
+  }
+
+  // 评分最优的 WebSocket 提供者的客户端，用于通过 eth_subscribe 订阅新区块；没有配置 WebSocket 提供者时返回 null
+  getWebSocketClient(): PublicClient | null {
+    const provider = this.rankProviders().find((candidate) => candidate.transport === 'websocket')
+    return provider ? provider.client : null
+  }
+
+  // 并行查询所有提供者的最新区块，更新延迟和落后区块数；返回是否至少有一个提供者可用
+  async probe(): Promise<boolean> {
+    await Promise.all(this.providers.map(async (provider) => {
+      const startedAt = Date.now()
+      try {
+        provider.blockNumber = await provider.client.getBlockNumber({ cacheTime: 0 })
+        this.recordSuccess(provider, Date.now() - startedAt)
+      } catch (error) {
+        this.recordFailure(provider, error)
+      }
+    }))
+
+    // 以各提供者中最高的区块作为链头，用于交叉校验落后的提供者
+    const blockNumbers = this.providers
+      .map((provider) => provider.blockNumber)
+      .filter((blockNumber): blockNumber is bigint => blockNumber !== null)
+    this.headBlock = blockNumbers.length > 0
+      ? blockNumbers.reduce((max, blockNumber) => (blockNumber > max ? blockNumber : max))
+      : null
+
+    for (const provider of this.providers) {
+      const blockLag = this.getBlockLag(provider)
+      if (blockLag !== null && blockLag > MAX_BLOCK_LAG) {
+        console.warn(`RPC provider ${maskUrl(provider.url)} for chain ${this.chainId} is ${blockLag} blocks behind head ${this.headBlock}`)
+      }
+    }
+
+    return this.providers.some((provider) => provider.outcomes[provider.outcomes.length - 1] === true)
+  }
+
+  // 手动降级当前最优的提供者，使后续请求切换到下一个提供者
+  demoteActiveProvider(): boolean {
+    if (this.providers.length <= 1) return false
+    const [active] = this.rankProviders()
+    active.cooldownUntil = Date.now() + RATE_LIMIT_COOLDOWN_MS
+    console.log(`RPC provider ${maskUrl(active.url)} for chain ${this.chainId} manually demoted`)
+    return true
+  }
+
+  // 启动定时探测（重复调用不会创建多个定时器）
+  start(): void {
+    if (this.probeTimer) return
+    this.probeTimer = setInterval(() => {
+      this.probe().catch((error) => {
+        console.error(`Error probing RPC providers for chain ${this.chainId}:`, error)
+      })
+    }, PROBE_INTERVAL_MS)
+  }
+
+  stop(): void {
+    if (!this.probeTimer) return
+    clearInterval(this.probeTimer)
+    this.probeTimer = null
+  }
+
+  getHeadBlock(): bigint | null {
+    return this.headBlock
+  }
+
+  // 获取所有提供者的评分（按配置顺序），isActive 为当前评分最优、优先使用的提供者
+  getStatus(): RpcProviderStatus[] {
+    const [active] = this.rankProviders()
+    return this.providers.map((provider) => ({
+      url: maskUrl(provider.url),
+      transport: provider.transport,
+      latencyMs: provider.latencyMs === null ? null : Math.round(provider.latencyMs),
+      errorRate: this.getErrorRate(provider),
+      blockNumber: provider.blockNumber?.toString() ?? null,
+      blockLag: this.getBlockLag(provider),
+      score: Math.round(this.getScore(provider)),
+      coolingDown: provider.cooldownUntil > Date.now(),
+      lastError: provider.lastError,
+      isActive: provider === active
+    }))
+  }
+}
@@ -0,0 +1,213 @@
+import { erc20Abi, formatEther } from 'viem'
+import memeTokenAbi from '../abi/MemeToken.json'
+import { getRollingTradeStats, getTradedTokens, getTradeEvents, hasLaterTradeEvent } from '../app/api/utils/trade-events-queries'
+import {
+  updateMemeTokenPrice,
+  updateMemeTokenLifecycle,
+  updateMemeTokenVolume24h,
+  updateMemeTokenMarketCap,
+  getMemeTokenAddressesWithVolume
+} from '../app/api/utils/meme-token-queries'
+import { eventBus, type EventBusEvents } from './event-bus'
+import { getEthUsdPrice } from './eth-price'
+import { multiplyDecimals } from '../lib/decimal'
+import type { ListenerClient } from './trade-listener'
+
+// 交易量统计的滑动窗口
+const VOLUME_WINDOW_MS = 24 * 60 * 60 * 1000
+
+// 定时刷新间隔：没有新成交的代币也需要定期扣除滑出窗口的交易
+const VOLUME_REFRESH_INTERVAL_MS = Number(process.env.VOLUME_24H_REFRESH_INTERVAL_MS || '60000')
+
+// 定时刷新的定时器
+let volumeRefreshTimer: NodeJS.Timeout | null = null
+
+// 交易入库事件订阅的取消函数
+let unsubscribeTradeIngested: (() => void) | null = null
+
+// 代币总供应量缓存（原始精度），键为小写代币地址；MemeToken 的总供应量在部署后不变
+const totalSupplyCache = new Map<string, bigint>()
+
+// 获取代币总供应量，每个代币只从链上读取一次
+const getTotalSupply = async (client: ListenerClient, tokenAddress: string): Promise<bigint> => {
+  const cacheKey = tokenAddress.toLowerCase()
+  const cached = totalSupplyCache.get(cacheKey)
+  if (cached !== undefined) {
+    return cached
+  }
+
+  const totalSupply = await client.readContract({
+    address: tokenAddress as `0x${string}`,
+    abi: memeTokenAbi,
+    functionName: 'totalSupply'
+  }) as bigint
+  totalSupplyCache.set(cacheKey, totalSupply)
+  return totalSupply
+}
+
+// 按链上总供应量和美元价格（十进制字符串）计算市值，流通量扣除仍由 Pool 合约持有的代币
+export async function refreshTokenMarketCap(
+  client: ListenerClient,
+  poolAddress: string,
+  tokenAddress: string,
+  priceUsd: string
+): Promise<void> {
+  const [totalSupply, poolBalance] = await Promise.all([
+    getTotalSupply(client, tokenAddress),
+    client.readContract({
+      address: tokenAddress as `0x${string}`,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [poolAddress as `0x${string}`]
+    })
+  ])
+  const circulatingSupply = totalSupply > poolBalance ? totalSupply - poolBalance : BigInt(0)
+
+  await updateMemeTokenMarketCap(tokenAddress, {
+    market_cap: Number(multiplyDecimals(formatEther(totalSupply), priceUsd)),
+    circulating_market_cap: Number(multiplyDecimals(formatEther(circulatingSupply), priceUsd)),
+    circulating_supply: circulatingSupply.toString()
+  })
+}
+
+// 从 trade_events 重新统计代币在所在网络上最近24小时的交易量、成交笔数和买卖笔数
+export async function refreshTokenVolume24h(network: string, tokenAddress: string): Promise<void> {
+  const since = new Date(Date.now() - VOLUME_WINDOW_MS).toISOString()
+  const stats = await getRollingTradeStats(network, tokenAddress, since)
+
+  await updateMemeTokenVolume24h(tokenAddress, {
+    volume_24h: Number(stats.volumeToken),
+    volume_24h_eth: Number(stats.volumeEth),
+    trade_count_24h: stats.tradeCount,
+    buy_count_24h: stats.buyCount,
+    sell_count_24h: stats.sellCount
+  })
+}
+
+/**
+ * 按已入库的最新成交重新计算代币价格、市值和24小时统计（链重组回滚、重放交易后使用）
+ * client 为 null 时（如没有可用的RPC）只更新 ETH 价格和24小时统计
+ */
+export async function refreshTokenStats(
+  network: string,
+  client: ListenerClient | null,
+  poolAddress: string,
+  tokenAddress: string
+): Promise<void> {
+  const [latestTrade] = await getTradeEvents({
+    network,
+    tokenAddress,
+    limit: 1,
+    orderBy: 'timestamp',
+    orderDirection: 'DESC'
+  })
+
+  const priceEth = latestTrade ? latestTrade.price : '0'
+  const ethUsdPrice = client ? await getEthUsdPrice(Number(network), client) : null
+  const priceUsd = ethUsdPrice !== null ? multiplyDecimals(priceEth, ethUsdPrice) : undefined
+
+  await updateMemeTokenPrice(tokenAddress, Number(priceEth), priceUsd !== undefined ? Number(priceUsd) : undefined)
+  if (client && priceUsd !== undefined) {
+    await refreshTokenMarketCap(client, poolAddress, tokenAddress, priceUsd)
+  }
+  await refreshTokenVolume24h(network, tokenAddress)
+  publishTokenStatsChanged(network, tokenAddress)
+}
+
+// 刷新窗口内有成交的代币，以及已记录的统计需要归零的代币
+export async function refreshAllTokenVolumes24h(): Promise<void> {
+  const since = new Date(Date.now() - VOLUME_WINDOW_MS).toISOString()
+  const tradedTokens = await getTradedTokens(since)
+  const tradedAddresses = new Set(tradedTokens.map(({ tokenAddress }) => tokenAddress))
+
+  for (const { network, tokenAddress } of tradedTokens) {
+    try {
+      await refreshTokenVolume24h(network, tokenAddress)
+    } catch (error) {
+      console.error(`Error refreshing 24h volume for ${tokenAddress}:`, error)
+    }
+  }
+
+  // 窗口内已经没有成交的代币统计归零
+  for (const tokenAddress of await getMemeTokenAddressesWithVolume()) {
+    if (tradedAddresses.has(tokenAddress)) continue
+    try {
+      await updateMemeTokenVolume24h(tokenAddress, {
+        volume_24h: 0,
+        volume_24h_eth: 0,
+        trade_count_24h: 0,
+        buy_count_24h: 0,
+        sell_count_24h: 0
+      })
+    } catch (error) {
+      console.error(`Error refreshing 24h volume for ${tokenAddress}:`, error)
+    }
+  }
+}
+
+// 启动定时刷新（重复调用不会创建多个定时器）
+export function startVolumeRefresh(): void {
+  if (volumeRefreshTimer) return
+
+  volumeRefreshTimer = setInterval(() => {
+    refreshAllTokenVolumes24h().catch((error) => {
+      console.error('Error refreshing 24h volumes:', error)
+    })
+  }, VOLUME_REFRESH_INTERVAL_MS)
+  console.log(`24h volume refresh started (interval: ${VOLUME_REFRESH_INTERVAL_MS}ms)`)
+}
+
+// 停止定时刷新
+export function stopVolumeRefresh(): void {
+  if (!volumeRefreshTimer) return
+
+  clearInterval(volumeRefreshTimer)
+  volumeRefreshTimer = null
+  console.log('24h volume refresh stopped')
+}
+
+// 发布代币统计更新事件，订阅者失败不影响统计本身
+export function publishTokenStatsChanged(network: string, tokenAddress: string): void {
+  eventBus.publish('token.stats.changed', { network, tokenAddress }).catch((error) => {
+    console.error(`Error handling token stats change for ${tokenAddress}:`, error)
+  })
+}
+
+// 交易入库后更新代币价格和市值（补处理的旧交易之后已有新成交时保留最新价格）、24小时统计和生命周期
+const handleTradeIngested = async ({ tradeEvent, poolAddress, client }: EventBusEvents['trade.ingested']): Promise<void> => {
+  const tokenAddress = tradeEvent.token_address
+  if (!tokenAddress) return
+
+  const isLatestTrade = !await hasLaterTradeEvent(
+    tradeEvent.network,
+    tokenAddress,
+    tradeEvent.block_number ?? 0,
+    tradeEvent.log_index ?? 0
+  )
+  if (isLatestTrade) {
+    const priceUsd = tradeEvent.price_usd
+    await updateMemeTokenPrice(tokenAddress, Number(tradeEvent.price), priceUsd !== undefined ? Number(priceUsd) : undefined)
+    if (priceUsd !== undefined) {
+      await refreshTokenMarketCap(client, poolAddress, tokenAddress, priceUsd)
+    }
+  }
+  await refreshTokenVolume24h(tradeEvent.network, tokenAddress)
+
+  // 首笔交易时进入交易中状态
+  await updateMemeTokenLifecycle(tokenAddress, 'trading', tradeEvent.timestamp, tradeEvent.tx_hash)
+
+  publishTokenStatsChanged(tradeEvent.network, tokenAddress)
+}
+
+// 订阅交易入库事件（重复调用不会重复订阅）
+export function subscribeTokenStatsEvents(): void {
+  if (unsubscribeTradeIngested) return
+  unsubscribeTradeIngested = eventBus.subscribe('trade.ingested', handleTradeIngested)
+}
+
+// 取消订阅交易入库事件
+export function unsubscribeTokenStatsEvents(): void {
+  if (!unsubscribeTradeIngested) return
+  unsubscribeTradeIngested()
+  unsubscribeTradeIngested = null
+}
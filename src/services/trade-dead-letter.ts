@@ -0,0 +1,116 @@
+import {
+  recordTradeDeadLetter,
+  getDueTradeDeadLetters,
+  markTradeDeadLetterResolved,
+  markTradeDeadLetterFailed
+} from '../app/api/utils/dead-letter-queries'
+import type { TradeEvent } from '../app/api/utils/trade-events-queries'
+
+// 死信中保存的交易事件（入库前的数据）
+export type DeadLetterTradeEvent = Omit<TradeEvent, 'id' | 'created_at'>
+
+// 重试任务的执行间隔
+const RETRY_INTERVAL_MS = Number(process.env.DEAD_LETTER_RETRY_INTERVAL_MS || '15000')
+
+// 首次重试的延迟（秒），之后每次失败翻倍，最长 1 小时
+const RETRY_BASE_DELAY_SECONDS = Number(process.env.DEAD_LETTER_RETRY_BASE_DELAY_SECONDS || '30')
+const RETRY_MAX_DELAY_SECONDS = 60 * 60
+
+// 最大处理次数（含首次失败），用尽后需要通过管理接口手动重新投递
+const MAX_ATTEMPTS = Number(process.env.DEAD_LETTER_MAX_ATTEMPTS || '8')
+
+// 每次重试任务最多处理的死信数
+const RETRY_BATCH_SIZE = 20
+
+// 每条链的重试定时器
+const retryTimers = new Map<number, NodeJS.Timeout>()
+
+// 正在执行重试的链，避免上一轮未结束时重复执行
+const retryingChains = new Set<number>()
+
+// 第 attempts 次失败后到下一次重试的延迟（指数退避）
+const getRetryDelaySeconds = (attempts: number): number => {
+  return Math.min(RETRY_BASE_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_SECONDS)
+}
+
+const formatError = (error: unknown): string => {
+  return error instanceof Error ? error.message : String(error)
+}
+
+// 把处理失败的交易事件写入死信表，等待后台重试
+export async function recordFailedTradeEvent(poolAddress: string, tradeEvent: DeadLetterTradeEvent, error: unknown): Promise<void> {
+  if (tradeEvent.log_index === undefined) {
+    console.error(`Trade event ${tradeEvent.tx_hash} has no log index, cannot be dead-lettered:`, error)
+    return
+  }
+
+  try {
+    await recordTradeDeadLetter({
+      network: tradeEvent.network,
+      tx_hash: tradeEvent.tx_hash,
+      log_index: tradeEvent.log_index,
+      block_number: tradeEvent.block_number,
+      pool_address: poolAddress,
+      payload: JSON.stringify(tradeEvent),
+      error: formatError(error),
+      retryDelaySeconds: getRetryDelaySeconds(1)
+    })
+    console.warn(`Trade event ${tradeEvent.tx_hash}:${tradeEvent.log_index} moved to dead-letter queue:`, formatError(error))
+  } catch (dbError) {
+    console.error(`Failed to dead-letter trade event ${tradeEvent.tx_hash}:${tradeEvent.log_index}:`, dbError, 'original error:', error)
+  }
+}
+
+// 重试指定链上到期的死信
+const retryDueTradeEvents = async (
+  chainId: number,
+  retry: (poolAddress: string, tradeEvent: DeadLetterTradeEvent) => Promise<void>
+): Promise<void> => {
+  if (retryingChains.has(chainId)) return
+  retryingChains.add(chainId)
+
+  try {
+    const deadLetters = await getDueTradeDeadLetters(chainId.toString(), RETRY_BATCH_SIZE)
+    for (const deadLetter of deadLetters) {
+      try {
+        await retry(deadLetter.pool_address, JSON.parse(deadLetter.payload) as DeadLetterTradeEvent)
+        await markTradeDeadLetterResolved(deadLetter.id)
+        console.log(`Dead-lettered trade event ${deadLetter.tx_hash}:${deadLetter.log_index} reprocessed successfully`)
+      } catch (error) {
+        const attempts = deadLetter.attempts + 1
+        const retryDelaySeconds = attempts >= MAX_ATTEMPTS ? null : getRetryDelaySeconds(attempts)
+        await markTradeDeadLetterFailed(deadLetter.id, formatError(error), retryDelaySeconds)
+
+        if (retryDelaySeconds === null) {
+          console.error(`Dead-lettered trade event ${deadLetter.tx_hash}:${deadLetter.log_index} failed ${attempts} times, giving up:`, error)
+        } else {
+          console.warn(`Retry of trade event ${deadLetter.tx_hash}:${deadLetter.log_index} failed (attempt ${attempts}), next retry in ${retryDelaySeconds}s:`, formatError(error))
+        }
+      }
+    }
+  } finally {
+    retryingChains.delete(chainId)
+  }
+}
+
+// 启动指定链的死信重试任务（已启动时不会重复启动）
+export function startDeadLetterRetry(
+  chainId: number,
+  retry: (poolAddress: string, tradeEvent: DeadLetterTradeEvent) => Promise<void>
+): void {
+  if (retryTimers.has(chainId)) return
+
+  const timer = setInterval(() => {
+    retryDueTradeEvents(chainId, retry).catch((error) => {
+      console.error(`Error retrying dead-lettered trade events for chain ${chainId}:`, error)
+    })
+  }, RETRY_INTERVAL_MS)
+  retryTimers.set(chainId, timer)
+  console.log(`Dead-letter retry started for chain ${chainId} (interval: ${RETRY_INTERVAL_MS}ms)`)
+}
+
+// 停止所有链的死信重试任务
+export function stopDeadLetterRetry(): void {
+  retryTimers.forEach((timer) => clearInterval(timer))
+  retryTimers.clear()
+}
@@ -1,17 +1,47 @@
-import { createPublicClient, http, webSocket, formatEther } from 'viem'
+import { createPublicClient, custom, formatEther, zeroAddress, type Log, type WatchBlockNumberParameters } from 'viem'
 import { sepolia, foundry } from 'viem/chains'
-import { insertTradeEvent } from "../app/api/utils/trade-events-queries"
-import { processTradeForKlines } from './kline'
-import { broadcastTradeUpdate } from './websocket-server'
+import { insertTradeEvent, getTradeEvents, getTradeEventBlocks, deleteTradeEventsFromBlock } from "../app/api/utils/trade-events-queries"
+import { deleteTradeDeadLettersFromBlock } from '../app/api/utils/dead-letter-queries'
+import { getListenerCursor, updateListenerCursor } from '../app/api/utils/listener-cursor-queries'
+import { rebuildKlinesFromTrades } from './kline'
+import { eventBus } from './event-bus'
 import poolAbi from '../abi/Pool.json'
+import tokenFactoryAbi from '../abi/TokenFactory.json'
+import memeTokenAbi from '../abi/MemeToken.json'
+import kekeswapFactoryAbi from '../abi/KekeswapFactory.json'
+import kekeswapPairAbi from '../abi/KekeswapPair.json'
+import masterAbi from '../abi/Master.json'
+import { getIndexedPairAddresses, handlePairCreated, handlePairEvent, rollbackPairEvents } from './pair-indexer'
+import { isFarmEvent, handleFarmEvent, rollbackFarmEvents, recomputeFarmStakes } from './farm-indexer'
+import {
+  getIndexedMemeTokenAddresses,
+  isIndexedMemeToken,
+  registerIndexedMemeToken,
+  handleTokenTransfer,
+  rollbackTokenTransfers
+} from './holder-indexer'
+import {
+  refreshTokenStats,
+  startVolumeRefresh,
+  stopVolumeRefresh,
+  subscribeTokenStatsEvents,
+  unsubscribeTokenStatsEvents
+} from './token-stats'
+import { getEthUsdPrice } from './eth-price'
+import { compareDecimals, divideDecimals, multiplyDecimals } from '../lib/decimal'
+import { RpcProviderPool, type RpcProviderStatus } from './rpc-provider-pool'
+import { recordFailedTradeEvent, startDeadLetterRetry, stopDeadLetterRetry, type DeadLetterTradeEvent } from './trade-dead-letter'
 import sepoliaAddresses from '../config/address/sepolia.json'
-import {updateMemeTokenPrice} from '../app/api/utils/meme-token-queries'
+import foundryAddresses from '../config/address/foundry.json'
+import {updateMemeTokenLifecycle, upsertMemeToken, type MemeTokenLifecycleStatus} from '../app/api/utils/meme-token-queries'
 
 // 网络配置映射
+// confirmations: 确认区块数，只有达到该确认数的区块才会入库
 const NETWORK_CONFIG: Record<number, {
   chain: any;
   wsUrls: string[];
   httpUrls: string[];
+  confirmations: number;
 }> = {
   [sepolia.id]: {
     chain: sepolia,
@@ -22,14 +52,58 @@ const NETWORK_CONFIG: Record<number, {
     httpUrls: [
       process.env.NEXT_PUBLIC_RPC_URL_SEPOLIA_HTTPS_1,
       process.env.NEXT_PUBLIC_RPC_URL_SEPOLIA_HTTPS_2
-    ].filter(Boolean) as string[]
+    ].filter(Boolean) as string[],
+    confirmations: Number(process.env.SEPOLIA_CONFIRMATIONS || '2')
+  },
+  // 本地 Foundry/Anvil 节点，配置了 RPC 地址时才启用监听；本地链没有重组风险，默认不等待确认
+  [foundry.id]: {
+    chain: foundry,
+    wsUrls: [
+      process.env.NEXT_PUBLIC_RPC_URL_FOUNDRY_WEBSOCKETS
+    ].filter(Boolean) as string[],
+    httpUrls: [
+      process.env.NEXT_PUBLIC_RPC_URL_FOUNDRY_HTTPS
+    ].filter(Boolean) as string[],
+    confirmations: Number(process.env.FOUNDRY_CONFIRMATIONS || '0')
   }
 }
 
 
+// 链上事件在游标表中的监听器名称（沿用最初只监听Trade事件时的名称，保留已有游标）
+const TRADE_LISTENER_NAME = 'pool_trade'
+
+// MemeToken Transfer 事件的游标名称：持有人数据落后于主游标时（如升级前已登记的代币）先补齐历史 Transfer
+const TOKEN_TRANSFER_LISTENER_NAME = 'meme_token_transfer'
+
+// Master 农场事件的游标名称：农场数据落后于主游标时（如升级前已有主游标的数据库）先补齐历史 Deposit/Withdraw
+const FARM_LISTENER_NAME = 'master_farm'
+
+// 跟随主游标推进、重组时一起回退的补齐游标
+const BACKFILL_LISTENER_NAMES = [TOKEN_TRANSFER_LISTENER_NAME, FARM_LISTENER_NAME]
+
+// 同步时拉取的合约事件ABI，所有合约的日志一起拉取以保证按链上顺序处理
+const SYNC_EVENTS_ABI = [...poolAbi, ...tokenFactoryAbi, ...kekeswapFactoryAbi, ...kekeswapPairAbi, ...masterAbi]
+
+// 历史回补时每次 getLogs 查询的最大区块跨度
+const BACKFILL_BLOCK_RANGE = BigInt(process.env.TRADE_BACKFILL_BLOCK_RANGE || '1000')
+
+// 链重组检测时最多向前回溯的区块数
+const REORG_MAX_DEPTH = BigInt(process.env.TRADE_REORG_MAX_DEPTH || '64')
+
+// 重组回滚后重算K线时额外加载的历史交易时长，覆盖由成交直接聚合的K线周期（更长周期由已持久化的K线汇总）
+const REORG_KLINE_LOOKBACK_MS = 15 * 60 * 1000
+
+// 区块时间戳缓存（毫秒），键为 链ID:区块哈希
+const blockTimestamps = new Map<string, number>()
 
-// 24小时交易量
-const VOLUME_24H = new Map<string, number> ()
+// 区块时间戳缓存的最大条目数
+const BLOCK_TIMESTAMP_CACHE_SIZE = 2000
+
+// 每条链的处理队列，保证同步、回滚和入库串行执行
+const processingQueues = new Map<number, Promise<void>>()
+
+// 已排队但尚未开始的同步请求
+const pendingSyncs = new Set<number>()
 
 // 活跃的监听器映射
 const activeListeners = new Map<number, () => void>()
@@ -40,175 +114,641 @@ const healthCheckTimers = new Map<number, NodeJS.Timeout>()
 // 连接状态映射
 const connectionStatus = new Map<number, boolean>()
 
-// WebSocket URL索引映射，用于轮换URL
-const wsUrlIndex = new Map<number, number>()
+// 每条链的RPC提供者池
+const providerPools = new Map<number, RpcProviderPool>()
 
 // 错误计数映射，用于跟踪连续错误次数
 const errorCount = new Map<number, number>()
 
 
-// 为指定链ID创建客户端 - 优先使用WebSocket，失败时使用HTTP
-const createClient = async (chainId: number) => {
+// 获取指定链的RPC提供者池，首次调用时创建并启动定时探测
+const getProviderPool = (chainId: number): RpcProviderPool => {
   const config = NETWORK_CONFIG[chainId]
   if (!config) {
     throw new Error(`Unsupported chain ID: ${chainId}`)
   }
 
-  // 获取当前WebSocket URL索引
-  let currentIndex = wsUrlIndex.get(chainId) || 0
-  const wsUrls = config.wsUrls
-  
-  // 尝试所有WebSocket连接，从当前索引开始
-  for (let i = 0; i < wsUrls.length; i++) {
-    const urlIndex = (currentIndex + i) % wsUrls.length
-    const wsUrl = wsUrls[urlIndex]
-    
-    try {
-      console.log(`Attempting WebSocket connection for chain ${chainId} (URL ${urlIndex + 1}/${wsUrls.length}):`, wsUrl)
-      const client = createPublicClient({
-        chain: config.chain,
-        transport: webSocket(wsUrl)
-      })
-      
-      // 连接成功，更新索引并重置错误计数
-      wsUrlIndex.set(chainId, urlIndex)
-      errorCount.set(chainId, 0)
-      console.log(`WebSocket connection successful for chain ${chainId}`)
-      return client
-    } catch (error: any) {
-      console.warn(`WebSocket connection failed for ${wsUrl}:`, error?.message || error)
-      
-      // 如果是429错误，立即切换到下一个URL
-      if (error?.message?.includes('429') || error?.message?.includes('rate limit')) {
-        console.log(`Rate limit detected, switching to next WebSocket URL for chain ${chainId}`)
-        continue
-      }
-    }
+  let pool = providerPools.get(chainId)
+  if (!pool) {
+    pool = new RpcProviderPool(chainId, config.chain, config.wsUrls, config.httpUrls)
+    providerPools.set(chainId, pool)
   }
+  pool.start()
+  return pool
+}
 
-  // 如果所有WebSocket连接都失败，尝试HTTP连接
-  for (const httpUrl of config.httpUrls) {
-    try {
-      console.log(`Attempting HTTP connection for chain ${chainId}:`, httpUrl)
-      const client = createPublicClient({
-        chain: config.chain,
-        transport: http(httpUrl)
-      })
-      console.log(`HTTP connection successful for chain ${chainId}`)
-      return client
-    } catch (error) {
-      console.warn(`HTTP connection failed for ${httpUrl}:`, error)
-      continue
-    }
+// 为指定链ID创建客户端 - 所有请求经提供者池路由到评分最优的WebSocket/HTTP节点，失败时自动切换
+export const createClient = async (chainId: number) => {
+  const config = NETWORK_CONFIG[chainId]
+  if (!config) {
+    throw new Error(`Unsupported chain ID: ${chainId}`)
   }
 
-  throw new Error(`All connection attempts failed for chain ${chainId}`)
+  const pool = getProviderPool(chainId)
+  console.log(`Probing ${pool.size} RPC providers for chain ${chainId}...`)
+
+  // 先探测一次所有提供者，得到初始评分
+  if (!await pool.probe()) {
+    throw new Error(`All connection attempts failed for chain ${chainId}`)
+  }
+  errorCount.set(chainId, 0)
+  console.log(`RPC provider pool ready for chain ${chainId}, head block: ${pool.getHeadBlock()}`)
+
+  // 失败重试由提供者池负责
+  return createPublicClient({
+    chain: config.chain,
+    transport: custom({ request: (args) => pool.request(args) }, { retryCount: 0 })
+  })
+}
+
+// 监听器使用的客户端类型
+export type ListenerClient = Awaited<ReturnType<typeof createClient>>
+
+// 创建一次同步使用的客户端：所有请求固定发往同一个提供者，保证链头查询和日志拉取来自同一节点，
+// 避免落后的节点返回空日志而游标仍被推进；该提供者失败时本次同步失败，下次同步按新的评分重新选择
+const createSyncClient = (chainId: number): ListenerClient => {
+  const config = NETWORK_CONFIG[chainId]
+  return createPublicClient({
+    chain: config.chain,
+    transport: custom({ request: getProviderPool(chainId).pinProvider() }, { retryCount: 0 })
+  })
+}
+
+// 交给各事件处理函数（含各索引器）的日志：解码后的日志加上链ID和区块时间（毫秒）
+export type IndexedEvent = Log & {
+  eventName?: string
+  args?: unknown
+  chainId: number
+  blockTimestamp: number
 }
 
 // 服务端网络配置 - 避免调用客户端hook
-const SERVER_NETWORK_CONTRACTS: Record<number, { poolAddress: string }> = {
+// deployBlock: Pool/TokenFactory/KekeswapFactory/Master合约中最早的部署区块，没有游标记录时从这里开始回补历史事件
+// 地址簿中未部署的合约为零地址，同步时会被忽略
+const SERVER_NETWORK_CONTRACTS: Record<number, {
+  poolAddress: string,
+  tokenFactoryAddress: string,
+  kekeswapFactoryAddress: string,
+  masterAddress: string,
+  deployBlock: bigint
+}> = {
   [sepolia.id]: {
-    poolAddress: sepoliaAddresses.poolAddress
+    poolAddress: sepoliaAddresses.poolAddress,
+    tokenFactoryAddress: sepoliaAddresses.tokenFactoryAddress,
+    kekeswapFactoryAddress: sepoliaAddresses.kekeswapFactoryAddress,
+    masterAddress: sepoliaAddresses.masterAddress,
+    deployBlock: BigInt(process.env.SEPOLIA_POOL_DEPLOY_BLOCK || '0')
+  },
+  [foundry.id]: {
+    poolAddress: foundryAddresses.poolAddress,
+    tokenFactoryAddress: foundryAddresses.tokenFactoryAddress,
+    kekeswapFactoryAddress: foundryAddresses.kekeswapFactoryAddress,
+    masterAddress: foundryAddresses.masterAddress,
+    deployBlock: BigInt(process.env.FOUNDRY_POOL_DEPLOY_BLOCK || '0')
   }
 }
 
+// 过滤未配置或为零地址的合约地址
+const isDeployedAddress = (address?: string): address is string => {
+  return !!address && address.toLowerCase() !== zeroAddress
+}
+
 // 获取指定链的Pool合约地址
-const getPoolAddress = (chainId: number): string | null => {
-  return SERVER_NETWORK_CONTRACTS[chainId]?.poolAddress || null
+export const getPoolAddress = (chainId: number): string | null => {
+  const poolAddress = SERVER_NETWORK_CONTRACTS[chainId]?.poolAddress
+  return isDeployedAddress(poolAddress) ? poolAddress : null
 }
 
 
-// 获取所有支持的链ID
+// 获取所有支持的链ID：需要同时有合约地址和至少一个RPC地址
 const getSupportedChains = (): number[] => {
-  return Object.keys(SERVER_NETWORK_CONTRACTS).map(Number)
+  return Object.keys(SERVER_NETWORK_CONTRACTS).map(Number).filter((chainId) => {
+    const config = NETWORK_CONFIG[chainId]
+    return !!config && config.wsUrls.length + config.httpUrls.length > 0
+  })
+}
+
+// 入库交易事件并发布 trade.ingested 事件，由K线、代币统计和WebSocket等订阅者各自处理
+// 入库或任一订阅者失败时抛出错误，由调用方写入死信队列；isRetry 为 true 时即使事件已入库也重新发布
+const processTradeEvent = async (
+  client: ListenerClient,
+  poolAddress: string,
+  tradeEvent: DeadLetterTradeEvent,
+  isRetry: boolean
+) => {
+  // 保存交易事件到数据库；重连、重复监听或重放时同一事件只处理一次
+  const { isNew } = await insertTradeEvent(tradeEvent)
+  if (!isNew && !isRetry) {
+    console.log(`Trade event already ingested for chain ${tradeEvent.network}, skipping:`, tradeEvent.tx_hash)
+    return
+  }
+  console.log(`Trade event saved for chain ${tradeEvent.network}:`, tradeEvent.tx_hash)
+
+  await eventBus.publish('trade.ingested', { tradeEvent, poolAddress, client, isRetry })
 }
 
 // 保存Trade事件到数据库
-async function saveTradeEvent(event: any) {
+async function saveTradeEvent(event: IndexedEvent, client: ListenerClient) {
+  if (!event.transactionHash || !event.blockHash || event.logIndex === null || event.blockNumber === null) return
   const chainId = event.chainId // 从event中获取chainId
   try {
+    const args = event.args as { user: string, tokenAmount: bigint, ethAmount: bigint, mint: string, isBuy: boolean }
     const tradeEventData = {
       network: event.chainId.toString(),
       tx_hash: event.transactionHash,
-      user_address: event.args.user,
-      token_amount: formatEther(event.args.tokenAmount),
-      eth_amount: formatEther(event.args.ethAmount),
-      token_address: event.args.mint,
-      isBuy: event.args.isBuy,
+      block_number: Number(event.blockNumber),
+      block_hash: event.blockHash,
+      log_index: event.logIndex,
+      user_address: args.user,
+      token_amount: formatEther(args.tokenAmount),
+      eth_amount: formatEther(args.ethAmount),
+      token_address: args.mint,
+      isBuy: args.isBuy,
       price: (() => {
-        const ethAmount = Number(formatEther(event.args.ethAmount))
-        const tokenAmount = Number(formatEther(event.args.tokenAmount))
+        const ethAmount = formatEther(args.ethAmount)
+        const tokenAmount = formatEther(args.tokenAmount)
         
-        // 防止除零错误和无效数据
-        if (tokenAmount === 0 || isNaN(ethAmount) || isNaN(tokenAmount)) {
+        // 防止除零错误，价格按定点小数精确计算到18位小数
+        if (compareDecimals(tokenAmount, '0') === 0) {
           console.warn('Invalid price calculation data:', { ethAmount, tokenAmount })
           return '0'
         }
         
-        return (ethAmount / tokenAmount).toString()
+        return divideDecimals(ethAmount, tokenAmount)
       })(),
-      timestamp: new Date().toISOString()
+      timestamp: new Date(event.blockTimestamp).toISOString()
     }
 
-    // 计算24小时交易量
     const tokenAddress = tradeEventData.token_address
-    let volume24h = VOLUME_24H.get(tokenAddress) || 0
-    const tokenAmount = Number(tradeEventData.token_amount)
     
     // 验证数据有效性
-    if (isNaN(tokenAmount) || tokenAmount <= 0) {
+    if (compareDecimals(tradeEventData.token_amount, '0') <= 0) {
       console.warn(`Invalid token amount for ${tokenAddress}:`, tradeEventData.token_amount)
       return
     }
     
-    volume24h = Number(volume24h) + tokenAmount
-    VOLUME_24H.set(tokenAddress, volume24h)
-    
-    const priceUsd = Number(tradeEventData.price)
-    if (isNaN(priceUsd) || priceUsd <= 0) {
+    if (compareDecimals(tradeEventData.price, '0') <= 0) {
       console.warn(`Invalid price for ${tokenAddress}:`, tradeEventData.price)
       return
     }
     
+    // 按成交所在区块的 ETH/USD 价格折算美元价格，价格不可用时只记录 ETH 价格
+    const ethUsdPrice = await getEthUsdPrice(chainId, client, {
+      blockNumber: event.blockNumber,
+      timestamp: event.blockTimestamp
+    })
+    const priceUsd = ethUsdPrice !== null ? multiplyDecimals(tradeEventData.price, ethUsdPrice) : undefined
+    const tradeEvent = { ...tradeEventData, price_usd: priceUsd }
+    
+    // 处理失败的事件写入死信队列，由后台任务退避重试；Trade 事件由 Pool 合约发出
     try {
-      // 计算简化的市值 (价格 * 交易量的估算)
-      const marketCap = priceUsd * 1000000000 * 5000;
-      
-      // 更新代币价格和交易数据
-      await updateMemeTokenPrice(
-        tokenAddress,
-        priceUsd,
-        marketCap,
-        volume24h
-      )
+      await processTradeEvent(client, event.address, tradeEvent, false)
     } catch (error) {
-      console.error(`Error updating meme token data for ${tokenAddress}:`, error)
-      // 继续执行，不要因为这个错误中断整个流程
+      await recordFailedTradeEvent(event.address, tradeEvent, error)
     }
+  } catch (error) {
+    console.error('Error decoding trade event:', error)
+  }
+}
 
-    
-    // 保存交易事件到数据库
-    await insertTradeEvent(tradeEventData)
-    console.log(`Trade event saved for chain ${event.chainId}:`, event.transactionHash)
-    
-    // 触发K线数据聚合
-    const klineTradeData = {
-      amount: tradeEventData.token_amount, 
-      price: tradeEventData.price,
-      address: tradeEventData.token_address, // 代币地址作为交易对地址
-      network: tradeEventData.network
+// 获取区块时间戳（毫秒），同一区块内的多条日志只请求一次
+const getBlockTimestamp = async (chainId: number, client: ListenerClient, blockHash: `0x${string}`): Promise<number> => {
+  const cacheKey = `${chainId}:${blockHash}`
+  const cached = blockTimestamps.get(cacheKey)
+  if (cached !== undefined) {
+    return cached
+  }
+
+  const block = await client.getBlock({ blockHash })
+  const timestamp = Number(block.timestamp) * 1000
+  blockTimestamps.set(cacheKey, timestamp)
+
+  // 超出容量时淘汰最早写入的条目
+  if (blockTimestamps.size > BLOCK_TIMESTAMP_CACHE_SIZE) {
+    const oldestKey = blockTimestamps.keys().next().value
+    if (oldestKey !== undefined) {
+      blockTimestamps.delete(oldestKey)
+    }
+  }
+
+  return timestamp
+}
+
+// 保存CreatePool/Complete事件对应的代币生命周期状态
+async function saveLifecycleEvent(event: IndexedEvent, status: MemeTokenLifecycleStatus) {
+  if (!event.transactionHash) return
+  try {
+    const { mint: tokenAddress } = event.args as { mint: string }
+    const found = await updateMemeTokenLifecycle(
+      tokenAddress,
+      status,
+      new Date(event.blockTimestamp).toISOString(),
+      event.transactionHash
+    )
+
+    if (!found) {
+      console.warn(`Meme token ${tokenAddress} not found, ${event.eventName} event skipped:`, event.transactionHash)
+      return
+    }
+    console.log(`${event.eventName} event saved for chain ${event.chainId}, token ${tokenAddress} is now ${status}:`, event.transactionHash)
+
+    if (status === 'graduated') {
+      await eventBus.publish('pool.graduated', {
+        network: event.chainId.toString(),
+        tokenAddress,
+        txHash: event.transactionHash,
+        timestamp: new Date(event.blockTimestamp).toISOString()
+      })
     }
-    
-    await processTradeForKlines(klineTradeData)
-    console.log(`K-line data processed for trade:`, event.transactionHash)
-    
-    // 广播交易数据给WebSocket订阅者
-    broadcastTradeUpdate(tradeEventData)
-    console.log(`Trade data broadcasted via WebSocket:`, event.transactionHash)
-    
   } catch (error) {
-    console.error('Error saving trade event, processing K-line, or broadcasting:', error)
+    console.error(`Error saving ${event.eventName} event:`, error)
+  }
+}
+
+// 根据MemeDeployed事件从MemeToken合约读取元数据并登记代币，返回新登记的代币地址
+async function registerMemeToken(event: IndexedEvent, client: ListenerClient): Promise<`0x${string}` | null> {
+  const { tokenAddr: tokenAddress } = event.args as { tokenAddr: `0x${string}` }
+  // 读取元数据失败时仍然索引该代币的 Transfer 事件
+  const isNew = await registerIndexedMemeToken(tokenAddress)
+  try {
+    const readMemeToken = (functionName: string) => client.readContract({
+      address: tokenAddress,
+      abi: memeTokenAbi,
+      functionName
+    })
+
+    const [
+      name,
+      symbol,
+      decimals,
+      totalSupply,
+      introduction,
+      iconAddress,
+      twitterAddress,
+      telegramAddress,
+      websiteAddress
+    ] = await Promise.all([
+      readMemeToken('name'),
+      readMemeToken('symbol'),
+      readMemeToken('decimals'),
+      readMemeToken('totalSupply'),
+      readMemeToken('introduction'),
+      readMemeToken('iconAddress'),
+      readMemeToken('twitterAddress'),
+      readMemeToken('telegramAddress'),
+      readMemeToken('websiteAddress')
+    ])
+
+    // 链上数据为准；图标为空时保留用户提交的链下图标
+    await upsertMemeToken({
+      address: tokenAddress,
+      name: String(name),
+      symbol: String(symbol),
+      decimals: Number(decimals),
+      total_supply: String(totalSupply),
+      description: String(introduction),
+      logo_uri: String(iconAddress) || undefined,
+      twitterAddress: String(twitterAddress),
+      telegramAddress: String(telegramAddress),
+      websiteAddress: String(websiteAddress)
+    })
+    console.log(`Meme token registered for chain ${event.chainId}: ${symbol} (${tokenAddress})`)
+  } catch (error) {
+    console.error(`Error registering meme token ${tokenAddress}:`, error)
+  }
+  return isNew ? tokenAddress : null
+}
+
+// 按顺序处理一批合约日志，返回本批新登记的交易对和 Meme 代币地址
+const processContractLogs = async (
+  chainId: number,
+  client: ListenerClient,
+  poolAddress: string,
+  logs: (Log & { eventName?: string })[]
+) => {
+  const createdContracts: `0x${string}`[] = []
+
+  for (const log of logs) {
+    if (!log.blockHash) continue
+    const blockTimestamp = await getBlockTimestamp(chainId, client, log.blockHash)
+    // 添加链ID和区块时间信息到事件数据
+    const event = { ...log, chainId, blockTimestamp }
+
+    switch (log.eventName) {
+      case 'Trade':
+        await saveTradeEvent(event, client)
+        break
+      case 'CreatePool':
+        await saveLifecycleEvent(event, 'created')
+        break
+      case 'Complete':
+        await saveLifecycleEvent(event, 'graduated')
+        break
+      case 'MemeDeployed': {
+        const tokenAddress = await registerMemeToken(event, client)
+        if (tokenAddress) createdContracts.push(tokenAddress)
+        break
+      }
+      case 'PairCreated': {
+        const pairAddress = await handlePairCreated(event, client)
+        if (pairAddress) createdContracts.push(pairAddress)
+        break
+      }
+      case 'Transfer':
+        // MemeToken 和交易对 LP 代币的 Transfer 事件签名相同，按合约地址区分
+        if (await isIndexedMemeToken(log.address)) {
+          await handleTokenTransfer(event, poolAddress)
+        } else {
+          await handlePairEvent(event, client)
+        }
+        break
+      case 'Swap':
+      case 'Mint':
+      case 'Burn':
+      case 'Sync':
+        await handlePairEvent(event, client)
+        break
+      default:
+        if (isFarmEvent(log.eventName)) {
+          await handleFarmEvent(event)
+        }
+    }
   }
+
+  return createdContracts
+}
+
+// 将任务加入该链的串行处理队列，返回该任务的执行结果
+const enqueueForChain = (chainId: number, task: () => Promise<void>): Promise<void> => {
+  const previous = processingQueues.get(chainId) || Promise.resolve()
+  const next = previous.then(task)
+  // 队列本身不因单个任务失败而中断
+  processingQueues.set(chainId, next.catch(() => undefined))
+  return next
+}
+
+// 查找链重组的起始区块：游标区块哈希仍是主链时返回 null
+// 游标区块高于链上最新区块时（如本地 Anvil 节点重启），整条链都可能已被替换，回溯到创世区块
+export const findReorgBlock = async (chainId: number, client: ListenerClient, latestBlock: bigint): Promise<bigint | null> => {
+  const network = chainId.toString()
+  const cursor = await getListenerCursor(network, TRADE_LISTENER_NAME)
+  if (!cursor || !cursor.blockHash) {
+    return null
+  }
+
+  const chainReset = cursor.blockNumber > latestBlock
+  if (!chainReset) {
+    const cursorBlock = await client.getBlock({ blockNumber: cursor.blockNumber })
+    if (cursorBlock.hash === cursor.blockHash) {
+      return null
+    }
+  }
+
+  console.warn(`Chain reorg detected for chain ${chainId} at block ${cursor.blockNumber}${chainReset ? ` (chain head is ${latestBlock})` : ''}`)
+
+  // 从游标往回找到最近一个区块哈希仍在主链上的已入库交易区块，其后的数据全部视为孤块数据
+  const minBlock = !chainReset && cursor.blockNumber > REORG_MAX_DEPTH ? cursor.blockNumber - REORG_MAX_DEPTH : BigInt(0)
+  const tradeBlocks = await getTradeEventBlocks(network, Number(minBlock), Number(cursor.blockNumber))
+
+  for (const tradeBlock of tradeBlocks) {
+    if (BigInt(tradeBlock.block_number) > latestBlock) continue
+    const canonicalBlock = await client.getBlock({ blockNumber: BigInt(tradeBlock.block_number) })
+    if (canonicalBlock.hash === tradeBlock.block_hash) {
+      return BigInt(tradeBlock.block_number) + BigInt(1)
+    }
+  }
+
+  return minBlock
+}
+
+// 回滚 fromBlock 及之后的孤块交易，重算受影响的K线和代币统计，并回退游标
+export const rollbackTradeEvents = async (chainId: number, client: ListenerClient, poolAddress: string, fromBlock: bigint) => {
+  const network = chainId.toString()
+  const orphanedTrades = await deleteTradeEventsFromBlock(network, Number(fromBlock))
+
+  console.warn(`Rolled back ${orphanedTrades.length} orphaned trades for chain ${chainId} from block ${fromBlock}`)
+
+  await rollbackPairEvents(client, network, fromBlock)
+  await rollbackFarmEvents(network, fromBlock)
+  await rollbackTokenTransfers(network, poolAddress, fromBlock)
+
+  // 孤块中处理失败的交易不再重试
+  await deleteTradeDeadLettersFromBlock(network, Number(fromBlock))
+
+  // 每个受影响代币从最早的孤块交易时间开始重算
+  const affectedTokens = new Map<string, number>()
+  for (const trade of orphanedTrades) {
+    if (!trade.token_address) continue
+    const tradeTime = new Date(trade.timestamp).getTime()
+    const earliest = affectedTokens.get(trade.token_address)
+    if (earliest === undefined || tradeTime < earliest) {
+      affectedTokens.set(trade.token_address, tradeTime)
+    }
+  }
+
+  for (const [tokenAddress, fromTimestamp] of affectedTokens) {
+    try {
+      const remainingTrades = await getTradeEvents({
+        network,
+        tokenAddress,
+        startTime: new Date(fromTimestamp - REORG_KLINE_LOOKBACK_MS).toISOString(),
+        orderBy: 'timestamp',
+        orderDirection: 'ASC'
+      })
+
+      await rebuildKlinesFromTrades(network, tokenAddress, fromTimestamp, remainingTrades.map(trade => ({
+        amount: trade.token_amount,
+        quoteAmount: trade.eth_amount,
+        isBuy: trade.isBuy,
+        price: trade.price,
+        address: tokenAddress,
+        network,
+        timestamp: new Date(trade.timestamp).getTime(),
+        txHash: trade.tx_hash,
+        logIndex: trade.log_index
+      })))
+
+      await refreshTokenStats(network, client, poolAddress, tokenAddress)
+    } catch (error) {
+      console.error(`Error recomputing data for ${tokenAddress} after reorg:`, error)
+    }
+  }
+
+  const previousBlock = fromBlock > BigInt(0) ? fromBlock - BigInt(1) : BigInt(0)
+  const block = await client.getBlock({ blockNumber: previousBlock })
+  await updateListenerCursor(network, TRADE_LISTENER_NAME, previousBlock, block.hash)
+
+  // Transfer 和农场游标只回退不前进，尚未补齐的历史事件仍由补齐流程处理
+  for (const listenerName of BACKFILL_LISTENER_NAMES) {
+    const backfillCursor = await getListenerCursor(network, listenerName)
+    if (backfillCursor && backfillCursor.blockNumber > previousBlock) {
+      await updateListenerCursor(network, listenerName, previousBlock, block.hash)
+    }
+  }
+}
+
+// 补齐已登记 Meme 代币在主游标之前的 Transfer 事件，使持有人数据与主游标对齐
+const backfillTokenTransfers = async (chainId: number, client: ListenerClient, poolAddress: string, deployBlock: bigint) => {
+  const network = chainId.toString()
+  const cursor = await getListenerCursor(network, TRADE_LISTENER_NAME)
+  if (!cursor) return
+
+  const transferCursor = await getListenerCursor(network, TOKEN_TRANSFER_LISTENER_NAME)
+  let fromBlock = transferCursor !== null ? transferCursor.blockNumber + BigInt(1) : deployBlock
+  if (fromBlock > cursor.blockNumber) return
+
+  const tokenAddresses = await getIndexedMemeTokenAddresses()
+  if (tokenAddresses.length > 0) {
+    console.log(`Backfilling meme token transfers for chain ${chainId} from block ${fromBlock} to ${cursor.blockNumber}...`)
+  }
+
+  while (tokenAddresses.length > 0 && fromBlock <= cursor.blockNumber) {
+    const pageEnd = fromBlock + BACKFILL_BLOCK_RANGE - BigInt(1)
+    const toBlock = pageEnd < cursor.blockNumber ? pageEnd : cursor.blockNumber
+
+    const logs = await client.getContractEvents({
+      address: tokenAddresses,
+      abi: memeTokenAbi,
+      eventName: 'Transfer',
+      fromBlock,
+      toBlock
+    })
+    await processContractLogs(chainId, client, poolAddress, logs)
+
+    const block = await client.getBlock({ blockNumber: toBlock })
+    await updateListenerCursor(network, TOKEN_TRANSFER_LISTENER_NAME, toBlock, block.hash)
+    fromBlock = toBlock + BigInt(1)
+  }
+
+  await updateListenerCursor(network, TOKEN_TRANSFER_LISTENER_NAME, cursor.blockNumber, cursor.blockHash)
+}
+
+// 补齐 Master 农场事件在主游标之前的部分，使质押数据与主游标对齐；已入库的事件不会重复累计
+// 补齐的事件早于已入库的事件，完成后按完整时间线重算涉及用户的质押数量
+const backfillFarmEvents = async (chainId: number, client: ListenerClient, poolAddress: string, deployBlock: bigint) => {
+  const network = chainId.toString()
+  const cursor = await getListenerCursor(network, TRADE_LISTENER_NAME)
+  if (!cursor) return
+
+  const farmCursor = await getListenerCursor(network, FARM_LISTENER_NAME)
+  let fromBlock = farmCursor !== null ? farmCursor.blockNumber + BigInt(1) : deployBlock
+  if (fromBlock > cursor.blockNumber) return
+
+  const masterAddress = SERVER_NETWORK_CONTRACTS[chainId]?.masterAddress
+  if (isDeployedAddress(masterAddress)) {
+    console.log(`Backfilling farm events for chain ${chainId} from block ${fromBlock} to ${cursor.blockNumber}...`)
+  }
+
+  while (isDeployedAddress(masterAddress) && fromBlock <= cursor.blockNumber) {
+    const pageEnd = fromBlock + BACKFILL_BLOCK_RANGE - BigInt(1)
+    const toBlock = pageEnd < cursor.blockNumber ? pageEnd : cursor.blockNumber
+
+    const logs = await client.getContractEvents({
+      address: masterAddress as `0x${string}`,
+      abi: masterAbi,
+      fromBlock,
+      toBlock
+    })
+    await processContractLogs(chainId, client, poolAddress, logs)
+    const farmLogs = logs as (Log & { args: { pid: bigint, user: string } })[]
+    await recomputeFarmStakes(network, farmLogs.map((log) => ({ pid: Number(log.args.pid), user_address: log.args.user })))
+
+    const block = await client.getBlock({ blockNumber: toBlock })
+    await updateListenerCursor(network, FARM_LISTENER_NAME, toBlock, block.hash)
+    fromBlock = toBlock + BigInt(1)
+  }
+
+  await updateListenerCursor(network, FARM_LISTENER_NAME, cursor.blockNumber, cursor.blockHash)
+}
+
+// 同步Pool事件（Trade、CreatePool、Complete）、TokenFactory事件（MemeDeployed）
+// KekeswapFactory和各交易对的事件（PairCreated、Swap、Mint、Burn、Sync）、Meme代币的Transfer事件以及Master农场事件（Deposit、Withdraw、EmergencyWithdraw）：先处理链重组，再从游标（或部署区块）分页拉取到已确认区块
+const syncTradeEvents = async (chainId: number, poolAddress: string) => {
+  const network = chainId.toString()
+  const client = createSyncClient(chainId)
+  const confirmations = BigInt(NETWORK_CONFIG[chainId]?.confirmations ?? 0)
+  const latestBlock = await client.getBlockNumber()
+  if (latestBlock < confirmations) {
+    return
+  }
+  const confirmedBlock = latestBlock - confirmations
+
+  const reorgBlock = await findReorgBlock(chainId, client, latestBlock)
+  if (reorgBlock !== null) {
+    await rollbackTradeEvents(chainId, client, poolAddress, reorgBlock)
+  }
+
+  const contracts = SERVER_NETWORK_CONTRACTS[chainId]
+  const deployBlock = contracts?.deployBlock ?? BigInt(0)
+  await backfillTokenTransfers(chainId, client, poolAddress, deployBlock)
+  await backfillFarmEvents(chainId, client, poolAddress, deployBlock)
+
+  const cursor = await getListenerCursor(network, TRADE_LISTENER_NAME)
+  const contractAddresses = [
+    poolAddress,
+    contracts?.tokenFactoryAddress,
+    contracts?.kekeswapFactoryAddress,
+    contracts?.masterAddress
+  ].filter(isDeployedAddress) as `0x${string}`[]
+
+  let fromBlock = cursor !== null ? cursor.blockNumber + BigInt(1) : deployBlock
+  if (fromBlock > confirmedBlock) {
+    return
+  }
+
+  if (confirmedBlock - fromBlock >= BACKFILL_BLOCK_RANGE) {
+    console.log(`Backfilling contract events for chain ${chainId} from block ${fromBlock} to ${confirmedBlock}...`)
+  }
+
+  while (fromBlock <= confirmedBlock) {
+    const pageEnd = fromBlock + BACKFILL_BLOCK_RANGE - BigInt(1)
+    const toBlock = pageEnd < confirmedBlock ? pageEnd : confirmedBlock
+
+    // 不指定事件名，一次拉取所有合约的全部事件，保证按区块和日志顺序处理
+    const logs = await client.getContractEvents({
+      address: [...contractAddresses, ...await getIndexedPairAddresses(), ...await getIndexedMemeTokenAddresses()],
+      abi: SYNC_EVENTS_ABI,
+      fromBlock,
+      toBlock
+    })
+
+    const createdContracts = await processContractLogs(chainId, client, poolAddress, logs)
+
+    // 本页新创建的交易对和 Meme 代币在查询时还不在地址列表中，补拉它们在本页范围内的事件
+    // （交易对ABI中的 Transfer 事件与 MemeToken 的签名相同，可以一起解码）
+    if (createdContracts.length > 0) {
+      const createdLogs = await client.getContractEvents({
+        address: createdContracts,
+        abi: kekeswapPairAbi,
+        fromBlock,
+        toBlock
+      })
+      await processContractLogs(chainId, client, poolAddress, createdLogs)
+    }
+
+    // 整页处理完成后推进游标，即使该页没有任何事件；记录区块哈希用于后续的重组检测
+    const block = await client.getBlock({ blockNumber: toBlock })
+    await updateListenerCursor(network, TRADE_LISTENER_NAME, toBlock, block.hash)
+    for (const listenerName of BACKFILL_LISTENER_NAMES) {
+      await updateListenerCursor(network, listenerName, toBlock, block.hash)
+    }
+    fromBlock = toBlock + BigInt(1)
+  }
+}
+
+// 请求一次同步；已有排队中的同步时合并为一次
+const requestTradeSync = (chainId: number, poolAddress: string) => {
+  if (pendingSyncs.has(chainId)) {
+    return
+  }
+  pendingSyncs.add(chainId)
+
+  enqueueForChain(chainId, () => {
+    pendingSyncs.delete(chainId)
+    return syncTradeEvents(chainId, poolAddress)
+  }).catch((error) => {
+    console.error(`Error syncing Trade events for chain ${chainId}:`, error)
+  })
 }
 
 // 健康检查函数
@@ -279,6 +819,10 @@ const startListenerForChain = async (chainId: number) => {
     return
   }
 
+  // 订阅交易入库事件更新代币统计，并定时刷新24小时滚动交易量（已启动时不会重复启动）
+  subscribeTokenStatsEvents()
+  startVolumeRefresh()
+
   try {
     // 创建客户端连接
     const client = await createClient(chainId)
@@ -292,16 +836,20 @@ const startListenerForChain = async (chainId: number) => {
     // 启动健康检查
     startHealthCheck(chainId, client)
     
-    // 监听Trade事件
-    const unwatch = client.watchContractEvent({
-      address: poolAddress as `0x${string}`,
-      abi: poolAbi,
-      eventName: 'Trade',
-      onLogs: (logs: any[]) => {
-        logs.forEach((log: any) => {
-          // 添加链ID信息到事件数据
-          saveTradeEvent({ ...log, chainId })
-        })
+    // 先回补停机期间遗漏的Trade事件
+    await enqueueForChain(chainId, () => syncTradeEvents(chainId, poolAddress))
+    
+    // 后台重试死信队列中的交易，与同步共用处理队列以保持顺序
+    startDeadLetterRetry(chainId, (deadLetterPool, tradeEvent) =>
+      enqueueForChain(chainId, () => processTradeEvent(client, deadLetterPool, tradeEvent, true))
+    )
+    
+    // 每出一个新区块同步一次，只处理达到确认数的区块
+    // 提供者池的 custom 传输不支持订阅，只能轮询；配置了 WebSocket 提供者时直接用它通过 eth_subscribe 订阅新区块
+    const webSocketClient = getProviderPool(chainId).getWebSocketClient()
+    const watchOptions: WatchBlockNumberParameters = {
+      onBlockNumber: () => {
+        requestTradeSync(chainId, poolAddress)
       },
       onError: (error: any) => {
         console.error(`Trade listener error for chain ${chainId}:`, error)
@@ -323,18 +871,6 @@ const startListenerForChain = async (chainId: number) => {
         const currentErrorCount = errorCount.get(chainId) || 0
         errorCount.set(chainId, currentErrorCount + 1)
         
-        // 如果是429错误或连续错误次数较多，切换到下一个WebSocket URL
-        if (error?.message?.includes('429') || error?.message?.includes('rate limit') || currentErrorCount >= 3) {
-          const currentIndex = wsUrlIndex.get(chainId) || 0
-          const config = NETWORK_CONFIG[chainId]
-          if (config && config.wsUrls.length > 1) {
-            const nextIndex = (currentIndex + 1) % config.wsUrls.length
-            wsUrlIndex.set(chainId, nextIndex)
-            console.log(`Switching to next WebSocket URL for chain ${chainId} (index: ${nextIndex})`)
-            errorCount.set(chainId, 0) // 重置错误计数
-          }
-        }
-        
         // 计算重连延迟，根据错误次数递增
         const retryDelay = Math.min(5000 + (currentErrorCount * 2000), 30000) // 最大30秒
         
@@ -344,7 +880,10 @@ const startListenerForChain = async (chainId: number) => {
           startListenerForChain(chainId)
         }, retryDelay)
       }
-    })
+    }
+    const unwatch = webSocketClient
+      ? webSocketClient.watchBlockNumber(watchOptions)
+      : client.watchBlockNumber(watchOptions)
     
     // 保存监听器引用
     activeListeners.set(chainId, unwatch)
@@ -359,18 +898,6 @@ const startListenerForChain = async (chainId: number) => {
     const currentErrorCount = errorCount.get(chainId) || 0
     errorCount.set(chainId, currentErrorCount + 1)
     
-    // 如果是429错误，切换到下一个WebSocket URL
-    if (error?.message?.includes('429') || error?.message?.includes('rate limit')) {
-      const currentIndex = wsUrlIndex.get(chainId) || 0
-      const config = NETWORK_CONFIG[chainId]
-      if (config && config.wsUrls.length > 1) {
-        const nextIndex = (currentIndex + 1) % config.wsUrls.length
-        wsUrlIndex.set(chainId, nextIndex)
-        console.log(`Rate limit detected, switching to next WebSocket URL for chain ${chainId} (index: ${nextIndex})`)
-        errorCount.set(chainId, 0) // 重置错误计数
-      }
-    }
-    
     // 计算重连延迟，根据错误次数递增
     const retryDelay = Math.min(10000 + (currentErrorCount * 3000), 60000) // 最大60秒
     
@@ -423,6 +950,13 @@ export function stopTradeListener() {
     }
   })
   
+  // 停止所有RPC提供者的定时探测
+  providerPools.forEach((pool) => pool.stop())
+  
+  stopVolumeRefresh()
+  unsubscribeTokenStatsEvents()
+  stopDeadLetterRetry()
+  
   // 清空所有映射
   activeListeners.clear()
   healthCheckTimers.clear()
@@ -440,46 +974,39 @@ export function getConnectionStatus(): Record<number, boolean> {
   return status
 }
 
-// 获取当前WebSocket URL状态
-export function getWebSocketStatus(): Record<number, { currentUrlIndex: number, errorCount: number, totalUrls: number }> {
-  const status: Record<number, { currentUrlIndex: number, errorCount: number, totalUrls: number }> = {}
+// 获取各链RPC提供者池的状态，包括每个提供者的延迟、错误率、落后区块数和评分
+export function getWebSocketStatus(): Record<number, {
+  currentUrlIndex: number,
+  errorCount: number,
+  totalUrls: number,
+  headBlock: string | null,
+  providers: RpcProviderStatus[]
+}> {
+  const status: ReturnType<typeof getWebSocketStatus> = {}
   
   for (const chainId of getSupportedChains()) {
-    const config = NETWORK_CONFIG[chainId]
-    if (config) {
-      status[chainId] = {
-        currentUrlIndex: wsUrlIndex.get(chainId) || 0,
-        errorCount: errorCount.get(chainId) || 0,
-        totalUrls: config.wsUrls.length
-      }
+    const pool = providerPools.get(chainId)
+    const providers = pool ? pool.getStatus() : []
+    status[chainId] = {
+      currentUrlIndex: Math.max(providers.findIndex((provider) => provider.isActive), 0),
+      errorCount: errorCount.get(chainId) || 0,
+      totalUrls: pool ? pool.size : 0,
+      headBlock: pool?.getHeadBlock()?.toString() ?? null,
+      providers
     }
   }
   
   return status
 }
 
-// 手动切换WebSocket URL
+// 手动切换RPC节点：降级当前评分最优的提供者，后续请求自动路由到下一个提供者
 export function switchWebSocketUrl(chainId: number): boolean {
-  const config = NETWORK_CONFIG[chainId]
-  if (!config || config.wsUrls.length <= 1) {
+  const pool = providerPools.get(chainId)
+  if (!pool || !pool.demoteActiveProvider()) {
     return false
   }
   
-  const currentIndex = wsUrlIndex.get(chainId) || 0
-  const nextIndex = (currentIndex + 1) % config.wsUrls.length
-  wsUrlIndex.set(chainId, nextIndex)
   errorCount.set(chainId, 0) // 重置错误计数
-  
-  console.log(`Manually switched WebSocket URL for chain ${chainId} to index ${nextIndex}`)
-  
-  // 重启监听器以使用新的URL
-  if (activeListeners.has(chainId)) {
-    stopTradeListener()
-    setTimeout(() => {
-      startListenerForChain(chainId)
-    }, 1000)
-  }
-  
   return true
 }
 
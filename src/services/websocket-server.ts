@@ -1,4 +1,6 @@
-import { getCachedKlineData } from './kline';
+import { getCachedKlineData, type KlineData } from './kline';
+import { KLINE_INTERVALS, validateKlineInterval } from '../app/api/utils/klines-queries';
+import { eventBus } from './event-bus';
 import { createServer, IncomingMessage } from 'http';
 import { Socket } from 'net';
 
@@ -44,7 +46,7 @@ export interface WSMessage {
 export interface Subscription {
   network?: string;
   pairAddress?: string;
-  intervals?: string[]; // ['30s', '1m', '15m']
+  intervals?: string[]; // ['30s', '1m', '15m', '1h', '4h', '1d', '1w']，不指定时推送全部周期
 }
 
 // 客户端连接信息
@@ -64,6 +66,7 @@ export class KlineWebSocketServer {
   private pingInterval: NodeJS.Timeout | null = null;
   private broadcastInterval: NodeJS.Timeout | null = null;
   private isRunning: boolean = false;
+  private eventSubscriptions: (() => void)[] = []; // 事件总线订阅的取消函数
 
   constructor(port: number = 8081) { // 改为8081避免端口冲突
     this.port = port;
@@ -110,6 +113,9 @@ export class KlineWebSocketServer {
           // 启动定时广播
           this.startBroadcastInterval();
           
+          // 订阅交易和K线更新事件
+          this.subscribeToEvents();
+          
           resolve();
         });
 
@@ -132,6 +138,10 @@ export class KlineWebSocketServer {
     return new Promise((resolve) => {
       this.isRunning = false;
       
+      // 取消事件订阅
+      this.eventSubscriptions.forEach((unsubscribe) => unsubscribe());
+      this.eventSubscriptions = [];
+      
       // 清理定时器
       if (this.pingInterval) {
         clearInterval(this.pingInterval);
@@ -249,6 +259,14 @@ export class KlineWebSocketServer {
         return;
       }
 
+      if (
+        subscription.intervals !== undefined &&
+        (!Array.isArray(subscription.intervals) || !subscription.intervals.every(validateKlineInterval))
+      ) {
+        this.sendError(client, `Invalid intervals. Must be any of: ${KLINE_INTERVALS.join(', ')}`);
+        return;
+      }
+
       // 添加订阅
       client.subscriptions.push(subscription);
       
@@ -305,7 +323,8 @@ export class KlineWebSocketServer {
    */
   private sendCurrentKlineData(client: ClientConnection, subscription: Subscription): void {
     try {
-      const klineData = getCachedKlineData(subscription.network, subscription.pairAddress);
+      const klineData = getCachedKlineData(subscription.network, subscription.pairAddress)
+        .filter(kline => !subscription.intervals?.length || subscription.intervals.includes(kline.interval_type));
       
       if (klineData.length > 0) {
         this.sendMessage(client, {
@@ -323,6 +342,19 @@ export class KlineWebSocketServer {
     }
   }
 
+  /**
+   * 订阅事件总线：交易入库时推送交易数据，K线更新时推送K线数据
+   */
+  private subscribeToEvents(): void {
+    this.eventSubscriptions.push(
+      // 重试死信时交易在首次处理时已经推送过，不再重复推送
+      eventBus.subscribe('trade.ingested', ({ tradeEvent, isRetry }) => {
+        if (!isRetry) this.broadcastTradeUpdate(tradeEvent);
+      }),
+      eventBus.subscribe('kline.updated', ({ network, pairAddress }) => this.broadcastKlineUpdate(network, pairAddress))
+    );
+  }
+
   /**
    * 广播交易数据给所有订阅的客户端
    */
@@ -346,6 +378,7 @@ export class KlineWebSocketServer {
             tokenAddress: tradeData.token_address,
             isBuy: tradeData.isBuy,
             price: tradeData.price,
+            priceUsd: tradeData.price_usd,
             timestamp: tradeData.timestamp
           }
         },
@@ -397,31 +430,19 @@ export class KlineWebSocketServer {
         return;
       }
       
-      const message: WSMessage = {
-        type: 'kline_update',
-        data: {
-          network,
-          pairAddress,
-          klines: klineData
-        },
-        timestamp: Date.now()
-      };
-
       console.log(`[DEBUG] Total clients: ${this.clients.size}`);
       
-      // 发送给所有订阅了该交易对的客户端
+      // 发送给所有订阅了该交易对的客户端，只推送其订阅的周期
       let sentCount = 0;
       this.clients.forEach((client) => {
         console.log(`[DEBUG] Client ${client.id} subscriptions:`, client.subscriptions);
         
-        const hasSubscription = client.subscriptions.some(sub => 
-          sub.network === network && sub.pairAddress === pairAddress
-        );
+        const klines = this.getSubscribedKlines(client, network, pairAddress, klineData);
         
-        console.log(`[DEBUG] Client ${client.id} has subscription: ${hasSubscription}, readyState: ${client.ws.readyState}`);
+        console.log(`[DEBUG] Client ${client.id} has subscription: ${klines !== null}, readyState: ${client.ws.readyState}`);
         
-        if (hasSubscription && client.ws.readyState === WEBSOCKET_OPEN) {
-          this.sendMessage(client, message);
+        if (klines && klines.length > 0 && client.ws.readyState === WEBSOCKET_OPEN) {
+          this.sendMessage(client, this.createKlineUpdateMessage(network, pairAddress, klines));
           sentCount++;
           console.log(`[DEBUG] Sent kline_update to client ${client.id}`);
         }
@@ -447,7 +468,7 @@ export class KlineWebSocketServer {
       if (allKlineData.length === 0) return;
       
       // 按network和pairAddress分组
-      const groupedData = new Map<string, any[]>();
+      const groupedData = new Map<string, KlineData[]>();
       
       allKlineData.forEach(kline => {
         const key = `${kline.network}:${kline.pair_address}`;
@@ -461,24 +482,12 @@ export class KlineWebSocketServer {
       groupedData.forEach((klines, key) => {
         const [network, pairAddress] = key.split(':');
         
-        const message: WSMessage = {
-          type: 'kline_update',
-          data: {
-            network,
-            pairAddress,
-            klines
-          },
-          timestamp: Date.now()
-        };
-        
         // 发送给订阅了该交易对的客户端
         this.clients.forEach((client) => {
-          const hasSubscription = client.subscriptions.some(sub => 
-            sub.network === network && sub.pairAddress === pairAddress
-          );
+          const subscribedKlines = this.getSubscribedKlines(client, network, pairAddress, klines);
           
-          if (hasSubscription && client.ws.readyState === WEBSOCKET_OPEN) {
-            this.sendMessage(client, message);
+          if (subscribedKlines && subscribedKlines.length > 0 && client.ws.readyState === WEBSOCKET_OPEN) {
+            this.sendMessage(client, this.createKlineUpdateMessage(network, pairAddress, subscribedKlines));
           }
         });
       });
@@ -488,6 +497,39 @@ export class KlineWebSocketServer {
     }
   }
 
+  /**
+   * 按客户端对该交易对的订阅筛选K线：未订阅时返回 null，任一订阅未指定周期时返回全部周期
+   */
+  private getSubscribedKlines(client: ClientConnection, network: string, pairAddress: string, klines: KlineData[]): KlineData[] | null {
+    const subscriptions = client.subscriptions.filter(sub =>
+      sub.network === network && sub.pairAddress === pairAddress
+    );
+    if (subscriptions.length === 0) {
+      return null;
+    }
+    if (subscriptions.some(sub => !sub.intervals?.length)) {
+      return klines;
+    }
+    
+    const intervals = new Set(subscriptions.reduce<string[]>((all, sub) => all.concat(sub.intervals || []), []));
+    return klines.filter(kline => intervals.has(kline.interval_type));
+  }
+
+  /**
+   * 构造K线更新消息
+   */
+  private createKlineUpdateMessage(network: string, pairAddress: string, klines: KlineData[]): WSMessage {
+    return {
+      type: 'kline_update',
+      data: {
+        network,
+        pairAddress,
+        klines
+      },
+      timestamp: Date.now()
+    };
+  }
+
   /**
    * 发送消息给客户端
    */